@@ -6,10 +6,46 @@ import { validate } from './config/env.validation';
 import { Token } from './models/token.entity';
 import { Chain } from './models/chain.entity';
 import { Logo } from './models/logo.entity';
+import { TokenPriceHistory } from './models/token-price-history.entity';
+import { TokenPriceCandle } from './models/token-price-candle.entity';
+import { OutboxMessage } from './models/outbox-message.entity';
+import { DeadLetterMessage } from './models/dead-letter-message.entity';
+import { TokenQuotePrice } from './models/token-quote-price.entity';
+import { PriceUpdateState } from './models/price-update-state.entity';
+import { TokenPriceOverride } from './models/token-price-override.entity';
 import { TokenPriceUpdateService } from './services/token-price-update.service';
 import { MockPriceService } from './services/mock-price.service';
+import { FixturePriceService } from './services/fixture-price.service';
+import { PriceProviderRegistry } from './services/price-provider.registry';
+import { PriceAggregatorService } from './services/price-aggregator.service';
+import { PricePublishPolicy } from './services/price-publish.policy';
+import { PriceUpdateScheduler } from './services/price-update.scheduler';
+import { LeaderElectionService } from './services/leader-election.service';
+import { HealthService } from './services/health.service';
+import { MetricsService } from './services/metrics.service';
+import { StalenessWatchdogService } from './services/staleness-watchdog.service';
+import { QuoteConversionService } from './services/quote-conversion.service';
+import { TokenAdminService } from './services/token-admin.service';
+import { PriceUpdatePauseService } from './services/price-update-pause.service';
+import { PriceOverrideService } from './services/price-override.service';
 import { KafkaProducerService } from './kafka/kafka-producer.service';
+import { KafkaConsumerService } from './kafka/kafka-consumer.service';
+import { OutboxService } from './kafka/outbox.service';
+import { OutboxRelayService } from './kafka/outbox-relay.service';
+import { DeadLetterService } from './kafka/dead-letter.service';
 import { TokenSeeder } from './data/token.seeder';
+import { TokenQueryService } from './services/token-query.service';
+import { PriceHistoryService } from './services/price-history.service';
+import { CandleAggregatorService } from './services/candle-aggregator.service';
+import { TokensController } from './controllers/tokens.controller';
+import { ChainsController } from './controllers/chains.controller';
+import { DeadLettersController } from './controllers/dead-letters.controller';
+import { ScheduleController } from './controllers/schedule.controller';
+import { HealthController } from './controllers/health.controller';
+import { MetricsController } from './controllers/metrics.controller';
+import { RatesController } from './controllers/rates.controller';
+import { AdminController } from './controllers/admin.controller';
+import { CircuitBreakerRegistry } from './common/circuit-breaker.registry';
 
 @Module({
   imports: [
@@ -26,30 +62,107 @@ import { TokenSeeder } from './data/token.seeder';
       username: process.env.DB_USERNAME || 'postgres',
       password: process.env.DB_PASSWORD || 'postgres',
       database: process.env.DB_DATABASE || 'tokens',
-      entities: [Token, Chain, Logo],
+      entities: [
+        Token,
+        Chain,
+        Logo,
+        TokenPriceHistory,
+        TokenPriceCandle,
+        OutboxMessage,
+        DeadLetterMessage,
+        TokenQuotePrice,
+        PriceUpdateState,
+        TokenPriceOverride,
+      ],
       migrations: [__dirname + '/migrations/*.{js,ts}'],
       migrationsRun: true, // Run migrations automatically
       synchronize: false, // Disabled when using migrations
       logging: process.env.NODE_ENV === 'development',
     }),
-    TypeOrmModule.forFeature([Token, Chain, Logo]),
+    TypeOrmModule.forFeature([
+      Token,
+      Chain,
+      Logo,
+      TokenPriceHistory,
+      TokenPriceCandle,
+      OutboxMessage,
+      DeadLetterMessage,
+      TokenQuotePrice,
+      PriceUpdateState,
+      TokenPriceOverride,
+    ]),
+  ],
+  controllers: [
+    TokensController,
+    ChainsController,
+    DeadLettersController,
+    ScheduleController,
+    RatesController,
+    AdminController,
+    HealthController,
+    MetricsController,
+  ],
+  providers: [
+    TokenPriceUpdateService,
+    MockPriceService,
+    FixturePriceService,
+    PriceProviderRegistry,
+    PriceAggregatorService,
+    PricePublishPolicy,
+    PriceUpdateScheduler,
+    LeaderElectionService,
+    HealthService,
+    MetricsService,
+    QuoteConversionService,
+    TokenAdminService,
+    PriceUpdatePauseService,
+    PriceOverrideService,
+    StalenessWatchdogService,
+    CircuitBreakerRegistry,
+    KafkaProducerService,
+    KafkaConsumerService,
+    OutboxService,
+    OutboxRelayService,
+    DeadLetterService,
+    TokenSeeder,
+    TokenQueryService,
+    PriceHistoryService,
+    CandleAggregatorService,
   ],
-  controllers: [],
-  providers: [TokenPriceUpdateService, MockPriceService, KafkaProducerService, TokenSeeder],
 })
 export class AppModule implements OnModuleInit {
   constructor(
     private readonly tokenSeeder: TokenSeeder,
     private readonly tokenPriceUpdateService: TokenPriceUpdateService,
+    private readonly kafkaConsumer: KafkaConsumerService,
+    private readonly leaderElection: LeaderElectionService,
   ) {}
 
   async onModuleInit() {
     try {
-      // Seed initial data
-      await this.tokenSeeder.seed();
+      // Take prices from the external feed, consumed by every instance of the
+      // consumer group
+      if (this.kafkaConsumer.isEnabled) {
+        await this.tokenSeeder.seed();
+        await this.kafkaConsumer.start();
+        return;
+      }
 
-      // Start price update service
-      this.tokenPriceUpdateService.start();
+      // Otherwise only the leader seeds and polls the price providers
+      this.leaderElection.onLeadershipChange(async isLeader => {
+        if (isLeader) {
+          try {
+            await this.tokenSeeder.seed();
+          } catch (error) {
+            // Keep leading with the tokens already in the database
+            console.error('Failed to seed tokens:', error);
+          }
+          this.tokenPriceUpdateService.start();
+        } else {
+          await this.tokenPriceUpdateService.stop();
+        }
+      });
+      this.leaderElection.start();
     } catch (error) {
       console.error('Failed to initialize application:', error);
     }
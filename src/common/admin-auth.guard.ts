@@ -0,0 +1,55 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+  createParamDecorator,
+} from '@nestjs/common';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { parseKeyValueList } from './key-value-list';
+
+interface AdminRequest extends Request {
+  adminAuthor?: string;
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Authenticates admin requests by an API key sent as a bearer token. Keys are
+// configured as "<author>:<key>" pairs in ADMIN_API_KEYS; the author of the
+// matching key is what writes record as lastUpdateAuthor. Without any keys
+// every admin request is rejected.
+@Injectable()
+export class AdminAuthGuard implements CanActivate {
+  // Keys are compared by digest, so every comparison takes the same time
+  private readonly keys: Array<{ author: string; digest: Buffer }> = [];
+
+  constructor() {
+    parseKeyValueList(process.env.ADMIN_API_KEYS).forEach((key, author) => {
+      this.keys.push({ author, digest: digest(key) });
+    });
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AdminRequest>();
+    const [scheme, key] = (request.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !key) {
+      throw new UnauthorizedException('Missing admin API key');
+    }
+
+    const keyDigest = digest(key);
+    const match = this.keys.find(entry => timingSafeEqual(entry.digest, keyDigest));
+    if (!match) {
+      throw new UnauthorizedException('Invalid admin API key');
+    }
+
+    request.adminAuthor = match.author;
+    return true;
+  }
+}
+
+// Author of the admin API key the request was authenticated with
+export const AdminAuthor = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string =>
+    context.switchToHttp().getRequest<AdminRequest>().adminAuthor ?? 'unknown',
+);
@@ -0,0 +1,33 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerStatus } from './circuit-breaker';
+
+// Shared circuit breakers by name, so their state can be reported in one place
+@Injectable()
+export class CircuitBreakerRegistry {
+  private readonly logger = new Logger(CircuitBreakerRegistry.name);
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly options: CircuitBreakerOptions;
+
+  constructor() {
+    this.options = {
+      failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10),
+      resetTimeoutMs: parseFloat(process.env.CIRCUIT_BREAKER_RESET_SECONDS || '30') * 1000,
+    };
+  }
+
+  get(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, this.options);
+      this.breakers.set(name, breaker);
+      this.logger.debug(`Created circuit breaker ${name}`);
+    }
+    return breaker;
+  }
+
+  list(): CircuitBreakerStatus[] {
+    return [...this.breakers.values()]
+      .map(breaker => breaker.getStatus())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
@@ -0,0 +1,111 @@
+import { Logger } from '@nestjs/common';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial call is let through
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError: string | null;
+  openedAt: Date | null;
+}
+
+// Thrown instead of calling through while the circuit is open
+export class CircuitOpenError extends Error {
+  constructor(readonly circuit: string) {
+    super(`Circuit ${circuit} is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Closed: calls go through and consecutive failures are counted. Open: calls
+// fail fast with CircuitOpenError until resetTimeoutMs has passed. Half-open:
+// a single trial call goes through; success closes the circuit, failure opens
+// it again.
+export class CircuitBreaker {
+  private readonly logger = new Logger(CircuitBreaker.name);
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private lastError: string | null = null;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(readonly name: string, private readonly options: CircuitBreakerOptions) {}
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.canExecute()) {
+      throw new CircuitOpenError(this.name);
+    }
+
+    const isTrial = this.state !== 'closed';
+    if (isTrial) {
+      this.state = 'half-open';
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure(error as Error);
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  // Whether a call would currently be let through
+  canExecute(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.trialInFlight) {
+      return false;
+    }
+    return Date.now() - (this.openedAt ?? 0) >= this.options.resetTimeoutMs;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt),
+    };
+  }
+
+  private onSuccess(): void {
+    if (this.state !== 'closed') {
+      this.logger.log(`Circuit ${this.name} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  private onFailure(error: Error): void {
+    this.consecutiveFailures++;
+    this.lastError = error.message;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        this.logger.warn(
+          `Circuit ${this.name} opened after ${this.consecutiveFailures} failure(s): ${error.message}`,
+        );
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
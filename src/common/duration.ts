@@ -0,0 +1,18 @@
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+};
+
+export const DURATION_PATTERN = /^(\d+)(s|m|h|d)$/;
+
+// Parses a short duration such as "30s", "5m", "1h" or "1d" into seconds
+export function parseDurationSeconds(value: string): number {
+  const match = DURATION_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  return parseInt(match[1], 10) * UNIT_SECONDS[match[2]];
+}
@@ -0,0 +1,124 @@
+// Subset of JSON Schema emitted by zod-to-json-schema for message schemas
+export interface JsonSchema {
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  format?: string;
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+// Lower bounds must not decrease and upper bounds must not increase
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems'] as const;
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems'] as const;
+
+function toTypes(type: string | string[] | undefined): string[] {
+  if (type === undefined) {
+    return [];
+  }
+  return Array.isArray(type) ? type : [type];
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Lists the changes from `previous` to `next` that would make a message valid
+// under `next` fail validation under `previous`, i.e. changes that break
+// consumers still validating against the previously published schema
+export function findBreakingChanges(previous: JsonSchema, next: JsonSchema, path = '$'): string[] {
+  const changes: string[] = [];
+
+  const previousTypes = toTypes(previous.type);
+  const nextTypes = toTypes(next.type);
+  if (previousTypes.length > 0) {
+    // "integer" values are also valid "number" values
+    const widened = nextTypes.filter(
+      type =>
+        !previousTypes.includes(type) && !(type === 'integer' && previousTypes.includes('number')),
+    );
+    if (nextTypes.length === 0 || widened.length > 0) {
+      changes.push(
+        `${path}: type changed from ${previousTypes.join('|')} to ${nextTypes.join('|') || 'any'}`,
+      );
+    }
+  }
+
+  if (previous.const !== undefined && !isEqual(previous.const, next.const)) {
+    changes.push(
+      `${path}: const changed from ${JSON.stringify(previous.const)} to ${JSON.stringify(
+        next.const,
+      )}`,
+    );
+  }
+
+  if (previous.enum) {
+    const allowed = previous.enum;
+    const added = (next.enum ?? ['<any>']).filter(
+      value => !allowed.some(existing => isEqual(existing, value)),
+    );
+    if (added.length > 0) {
+      changes.push(`${path}: enum values added: ${added.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+  }
+
+  for (const keyword of ['format', 'pattern'] as const) {
+    if (previous[keyword] !== undefined && previous[keyword] !== next[keyword]) {
+      changes.push(
+        `${path}: ${keyword} changed from ${previous[keyword]} to ${next[keyword] ?? 'none'}`,
+      );
+    }
+  }
+
+  for (const keyword of LOWER_BOUNDS) {
+    const before = previous[keyword];
+    const after = next[keyword];
+    if (before !== undefined && (after === undefined || after < before)) {
+      changes.push(`${path}: ${keyword} relaxed from ${before} to ${after ?? 'none'}`);
+    }
+  }
+  for (const keyword of UPPER_BOUNDS) {
+    const before = previous[keyword];
+    const after = next[keyword];
+    if (before !== undefined && (after === undefined || after > before)) {
+      changes.push(`${path}: ${keyword} relaxed from ${before} to ${after ?? 'none'}`);
+    }
+  }
+
+  const nextRequired = next.required ?? [];
+  for (const property of previous.required ?? []) {
+    if (!nextRequired.includes(property)) {
+      changes.push(`${path}.${property}: no longer required`);
+    }
+  }
+
+  const previousProperties = previous.properties ?? {};
+  for (const [property, nextProperty] of Object.entries(next.properties ?? {})) {
+    const previousProperty = previousProperties[property];
+    if (previousProperty) {
+      changes.push(...findBreakingChanges(previousProperty, nextProperty, `${path}.${property}`));
+    } else if (previous.additionalProperties === false) {
+      changes.push(`${path}.${property}: added but additional properties are not allowed`);
+    }
+  }
+
+  if (previous.items && next.items) {
+    changes.push(...findBreakingChanges(previous.items, next.items, `${path}[]`));
+  } else if (previous.items) {
+    changes.push(`${path}[]: item schema removed`);
+  }
+
+  return changes;
+}
@@ -0,0 +1,21 @@
+// Parses a comma separated "key:value" list such as "1:fixture,3:mock" from
+// an environment variable; blank entries are ignored
+export function parseKeyValueList(value: string | undefined): Map<string, string> {
+  const entries = new Map<string, string>();
+
+  for (const entry of (value || '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const separator = trimmed.indexOf(':');
+    if (separator <= 0 || separator === trimmed.length - 1) {
+      throw new Error(`Invalid key:value entry "${trimmed}"`);
+    }
+
+    entries.set(trimmed.slice(0, separator).trim(), trimmed.slice(separator + 1).trim());
+  }
+
+  return entries;
+}
@@ -0,0 +1,61 @@
+// Binary min-heap keyed by a number, e.g. a due time in milliseconds
+export class MinHeap<T> {
+  private readonly items: Array<{ key: number; value: T }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(key: number, value: T): void {
+    this.items.push({ key, value });
+
+    // Sift up
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].key <= this.items[index].key) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  peek(): { key: number; value: T } | undefined {
+    return this.items[0];
+  }
+
+  pop(): { key: number; value: T } | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length === 0 || !last) {
+      return top;
+    }
+    this.items[0] = last;
+
+    // Sift down
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < this.items.length && this.items[left].key < this.items[smallest].key) {
+        smallest = left;
+      }
+      if (right < this.items.length && this.items[right].key < this.items[smallest].key) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+      this.swap(index, smallest);
+      index = smallest;
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+  }
+}
@@ -0,0 +1,60 @@
+import Decimal from 'decimal.js';
+import { ValueTransformer } from 'typeorm';
+
+// Prices are stored as numeric(28,18): at most 10 integer and 18 fractional
+// digits
+export const PRICE_PRECISION = 28;
+export const PRICE_SCALE = 18;
+
+// Non-negative decimal in plain notation, e.g. "1234.5678"; how prices are
+// written to Kafka and returned by the API
+export const DECIMAL_STRING_PATTERN = /^\d+(\.\d+)?$/;
+
+// Decimal constructor for prices. Intermediate results such as means get more
+// significant digits than a stored price has, so they only lose precision when
+// rounded with roundPrice; banker's rounding keeps repeated rounding from
+// drifting in one direction. Plain notation down to the smallest stored value.
+const PriceDecimal = Decimal.clone({
+  precision: 40,
+  rounding: Decimal.ROUND_HALF_EVEN,
+  toExpNeg: -(PRICE_SCALE + 1),
+  toExpPos: 40,
+});
+
+export type Price = Decimal;
+
+export const ZERO_PRICE: Price = new PriceDecimal(0);
+
+// Strings are taken exactly; numbers by their shortest representation, so
+// 0.1 becomes 0.1 rather than the binary approximation of 0.1
+export function toPrice(value: Decimal.Value): Price {
+  const price = new PriceDecimal(value);
+  if (!price.isFinite()) {
+    throw new Error(`Invalid price: ${value}`);
+  }
+  return price;
+}
+
+// Rounds to the token's decimals, capped at the scale of the price columns,
+// and checks that the result fits them
+export function roundPrice(price: Price, decimals: number): Price {
+  const places = Math.min(Math.max(decimals, 0), PRICE_SCALE);
+  const rounded = toPrice(price).toDecimalPlaces(places, Decimal.ROUND_HALF_EVEN);
+  if (rounded.abs().gte(new PriceDecimal(10).pow(PRICE_PRECISION - PRICE_SCALE))) {
+    throw new Error(`Price ${formatPrice(rounded)} does not fit numeric(28,18)`);
+  }
+  return rounded;
+}
+
+// Plain notation without exponent or trailing zeros
+export function formatPrice(price: Price): string {
+  return price.toFixed();
+}
+
+// Maps numeric columns to Decimal; node-postgres returns them as strings, so
+// no value goes through a float on the way in or out
+export const priceTransformer: ValueTransformer = {
+  to: (value: Price | null | undefined) =>
+    value === null || value === undefined ? value : formatPrice(value),
+  from: (value: string | null) => (value === null ? null : toPrice(value)),
+};
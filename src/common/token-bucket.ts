@@ -0,0 +1,45 @@
+import { abortable } from './concurrency';
+
+// Token-bucket rate limiter: allows `ratePerSecond` calls per second on
+// average and bursts of up to `capacity` calls
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  // Callers are served in the order they asked
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly ratePerSecond: number, private readonly capacity = ratePerSecond) {
+    if (!(ratePerSecond > 0) || !(capacity >= 1)) {
+      throw new Error(`Invalid token bucket: rate ${ratePerSecond}/s, capacity ${capacity}`);
+    }
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  // Resolves once a call is allowed. Once the signal is aborted the caller
+  // leaves the queue with the abort reason, without using up a token.
+  acquire(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.take(signal));
+    // A caller that gave up must not hold up the ones behind it
+    this.queue = turn.catch(() => undefined);
+    return abortable(turn, signal);
+  }
+
+  private async take(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.refill();
+    if (this.tokens < 1) {
+      const waitMs = ((1 - this.tokens) / this.ratePerSecond) * 1000;
+      await abortable(new Promise(resolve => setTimeout(resolve, waitMs)), signal);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
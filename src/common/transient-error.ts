@@ -0,0 +1,41 @@
+import { QueryFailedError } from 'typeorm';
+
+// Postgres SQLSTATE classes worth retrying: connection exception, transaction
+// rollback (serialization failures, deadlocks), insufficient resources,
+// operator intervention (e.g. shutdown) and system errors
+const TRANSIENT_SQLSTATE_CLASSES = ['08', '40', '53', '57', '58'];
+
+// Node system errors of a connection that failed or dropped
+const TRANSIENT_SYSTEM_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+];
+
+// node-postgres reports a lost or unobtainable connection without a code
+const TRANSIENT_MESSAGE = /connection terminated|timeout exceeded when trying to connect/i;
+
+// Whether an error comes from the database or the connection to it being
+// unavailable, so the same operation may succeed later. Everything else (bad
+// values, schema violations, constraint violations) fails the same way on
+// every retry.
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const code =
+    error instanceof QueryFailedError
+      ? (error.driverError as { code?: string }).code
+      : (error as { code?: string }).code;
+  if (typeof code === 'string') {
+    return (
+      TRANSIENT_SYSTEM_CODES.includes(code) ||
+      (code.length === 5 && TRANSIENT_SQLSTATE_CLASSES.includes(code.slice(0, 2)))
+    );
+  }
+  return TRANSIENT_MESSAGE.test(error.message);
+}
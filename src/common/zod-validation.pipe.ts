@@ -0,0 +1,25 @@
+import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
+import { ZodError, ZodTypeAny, z } from 'zod';
+
+// Validates request input (query, params, body) against a Zod schema
+@Injectable()
+export class ZodValidationPipe<T extends ZodTypeAny> implements PipeTransform<unknown, z.infer<T>> {
+  constructor(private readonly schema: T) {}
+
+  transform(value: unknown): z.infer<T> {
+    try {
+      return this.schema.parse(value);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new BadRequestException({
+          message: 'Validation failed',
+          errors: error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { hostname } from 'os';
+
 export interface DatabaseConfig {
   host: string;
   port: number;
@@ -10,18 +12,119 @@ export interface KafkaConfig {
   brokers: string[];
   clientId: string;
   topic: string;
+  candleTopic: string;
+  staleTopic: string;
+  stateTopic: string;
+  batchMaxSize: number;
+  compression: string;
+  acks: number;
+  producerId: string;
+  quoteTopic: string;
+  consumerGroupId: string;
+  unavailableMode: string;
 }
 
 export interface ApplicationConfig {
   port: number;
   nodeEnv: string;
   priceUpdateIntervalSeconds: number;
+  priceFeed: string;
+  refreshSecondsByPriority: string;
+  scheduleSyncSeconds: number;
+  updateConcurrency: number;
+  updateTimeoutMs: number;
+}
+
+export interface PriceProviderConfig {
+  provider: string;
+  chainProviders: string;
+  tokenProviders: string;
+  fixturePath: string;
+  aggregationMethod: string;
+  maxDeviationBps: number;
+  trimRatio: number;
+  minSources: number;
+  sourceWeights: string;
+  rateLimits: string;
+}
+
+export interface MockPriceConfig {
+  mode: string;
+  seed: number | null;
+  stepSeconds: number;
+  drift: number;
+  volatility: number;
+  tokenParams: string;
+  shockProbability: number;
+  shockMagnitude: number;
+}
+
+export interface PublishConfig {
+  deviationBps: number;
+  deviationBpsByPriority: string;
+  deviationBpsByToken: string;
+  heartbeatSeconds: number;
+}
+
+export interface OutboxConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+  retentionHours: number;
+  maxAttempts: number;
+}
+
+export interface DeadLetterConfig {
+  store: string;
+  topic: string;
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  resetSeconds: number;
+}
+
+export interface LeaderElectionConfig {
+  mode: string;
+  lockKey: number;
+  renewSeconds: number;
+}
+
+export interface HealthConfig {
+  staleCycleIntervals: number;
+}
+
+export interface StalenessConfig {
+  checkSeconds: number;
+  thresholdSeconds: number;
+  thresholdSecondsByPriority: string;
+}
+
+export interface AdminConfig {
+  apiKeys: string;
+}
+
+export interface QuoteConfig {
+  quotes: string[];
+  quoteTokens: string;
 }
 
 export interface AppConfiguration {
   database: DatabaseConfig;
   kafka: KafkaConfig;
   application: ApplicationConfig;
+  prices: PriceProviderConfig;
+  mockPrices: MockPriceConfig;
+  publish: PublishConfig;
+  outbox: OutboxConfig;
+  deadLetter: DeadLetterConfig;
+  circuitBreaker: CircuitBreakerConfig;
+  leaderElection: LeaderElectionConfig;
+  health: HealthConfig;
+  staleness: StalenessConfig;
+  quotes: QuoteConfig;
+  admin: AdminConfig;
 }
 
 export function configuration(): AppConfiguration {
@@ -37,11 +140,92 @@ export function configuration(): AppConfiguration {
       brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
       clientId: process.env.KAFKA_CLIENT_ID || 'token-price-service',
       topic: process.env.KAFKA_TOPIC || 'token-price-updates',
+      candleTopic: process.env.KAFKA_CANDLE_TOPIC || 'token-price-candles',
+      staleTopic: process.env.KAFKA_STALE_TOPIC || 'token-price-stale',
+      stateTopic: process.env.KAFKA_STATE_TOPIC || 'token-price-update-state',
+      batchMaxSize: parseInt(process.env.KAFKA_BATCH_MAX_SIZE || '500', 10),
+      compression: process.env.KAFKA_COMPRESSION || 'none',
+      acks: parseInt(process.env.KAFKA_ACKS || '-1', 10),
+      producerId: process.env.KAFKA_PRODUCER_ID || `${hostname()}-${process.pid}`,
+      quoteTopic: process.env.KAFKA_QUOTE_TOPIC || 'price-quotes',
+      consumerGroupId: process.env.KAFKA_CONSUMER_GROUP_ID || 'token-price-service',
+      unavailableMode: process.env.KAFKA_UNAVAILABLE_MODE || 'buffer',
     },
     application: {
       port: parseInt(process.env.PORT || '3000', 10),
       nodeEnv: process.env.NODE_ENV || 'development',
       priceUpdateIntervalSeconds: parseInt(process.env.PRICE_UPDATE_INTERVAL_SECONDS || '5', 10),
+      priceFeed: process.env.PRICE_FEED || 'poll',
+      refreshSecondsByPriority: process.env.PRICE_REFRESH_SECONDS_BY_PRIORITY || '',
+      scheduleSyncSeconds: parseFloat(process.env.PRICE_SCHEDULE_SYNC_SECONDS || '30'),
+      updateConcurrency: parseInt(process.env.PRICE_UPDATE_CONCURRENCY || '10', 10),
+      updateTimeoutMs: parseInt(process.env.PRICE_UPDATE_TIMEOUT_MS || '10000', 10),
+    },
+    prices: {
+      provider: process.env.PRICE_PROVIDER || 'mock',
+      chainProviders: process.env.PRICE_PROVIDER_CHAINS || '',
+      tokenProviders: process.env.PRICE_PROVIDER_TOKENS || '',
+      fixturePath: process.env.PRICE_FIXTURE_PATH || 'fixtures/prices.json',
+      aggregationMethod: process.env.PRICE_AGGREGATION_METHOD || 'median',
+      maxDeviationBps: parseInt(process.env.PRICE_MAX_DEVIATION_BPS || '500', 10),
+      trimRatio: parseFloat(process.env.PRICE_TRIM_RATIO || '0.2'),
+      minSources: parseInt(process.env.PRICE_MIN_SOURCES || '1', 10),
+      sourceWeights: process.env.PRICE_SOURCE_WEIGHTS || '',
+      rateLimits: process.env.PRICE_PROVIDER_RATE_LIMITS || '',
+    },
+    mockPrices: {
+      mode: process.env.MOCK_PRICE_MODE || 'gbm',
+      seed: process.env.MOCK_PRICE_SEED ? parseInt(process.env.MOCK_PRICE_SEED, 10) : null,
+      stepSeconds: parseFloat(
+        process.env.MOCK_PRICE_STEP_SECONDS || process.env.PRICE_UPDATE_INTERVAL_SECONDS || '5',
+      ),
+      drift: parseFloat(process.env.MOCK_PRICE_DRIFT || '0'),
+      volatility: parseFloat(process.env.MOCK_PRICE_VOLATILITY || '0.8'),
+      tokenParams: process.env.MOCK_PRICE_TOKEN_PARAMS || '',
+      shockProbability: parseFloat(process.env.MOCK_PRICE_SHOCK_PROBABILITY || '0'),
+      shockMagnitude: parseFloat(process.env.MOCK_PRICE_SHOCK_MAGNITUDE || '0.1'),
+    },
+    publish: {
+      deviationBps: parseFloat(process.env.PUBLISH_DEVIATION_BPS || '10'),
+      deviationBpsByPriority: process.env.PUBLISH_DEVIATION_BPS_BY_PRIORITY || '',
+      deviationBpsByToken: process.env.PUBLISH_DEVIATION_BPS_BY_TOKEN || '',
+      heartbeatSeconds: parseFloat(process.env.PUBLISH_HEARTBEAT_SECONDS || '60'),
+    },
+    outbox: {
+      pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10),
+      batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '100', 10),
+      retryDelayMs: parseInt(process.env.OUTBOX_RETRY_DELAY_MS || '1000', 10),
+      maxRetryDelayMs: parseInt(process.env.OUTBOX_MAX_RETRY_DELAY_MS || '60000', 10),
+      retentionHours: parseFloat(process.env.OUTBOX_RETENTION_HOURS || '24'),
+      maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10),
+    },
+    deadLetter: {
+      store: process.env.DEAD_LETTER_STORE || 'table',
+      topic: process.env.KAFKA_DLQ_TOPIC || 'token-price-service.dlq',
+    },
+    circuitBreaker: {
+      failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10),
+      resetSeconds: parseFloat(process.env.CIRCUIT_BREAKER_RESET_SECONDS || '30'),
+    },
+    leaderElection: {
+      mode: process.env.LEADER_ELECTION || 'lock',
+      lockKey: parseInt(process.env.LEADER_ELECTION_LOCK_KEY || '724519', 10),
+      renewSeconds: parseFloat(process.env.LEADER_ELECTION_RENEW_SECONDS || '5'),
+    },
+    health: {
+      staleCycleIntervals: parseFloat(process.env.HEALTH_STALE_CYCLE_INTERVALS || '3'),
+    },
+    staleness: {
+      checkSeconds: parseFloat(process.env.PRICE_STALE_CHECK_SECONDS || '15'),
+      thresholdSeconds: parseFloat(process.env.PRICE_STALE_SECONDS || '300'),
+      thresholdSecondsByPriority: process.env.PRICE_STALE_SECONDS_BY_PRIORITY || '',
+    },
+    quotes: {
+      quotes: (process.env.PRICE_QUOTES || 'USD').split(','),
+      quoteTokens: process.env.PRICE_QUOTE_TOKENS || '',
+    },
+    admin: {
+      apiKeys: process.env.ADMIN_API_KEYS || '',
     },
   };
 }
@@ -1,5 +1,14 @@
 import { plainToInstance } from 'class-transformer';
-import { IsString, IsNumber, IsEnum, IsOptional, Min, Max, validateSync } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsEnum,
+  IsOptional,
+  Min,
+  Max,
+  Matches,
+  validateSync,
+} from 'class-validator';
 
 enum Environment {
   Development = 'development',
@@ -7,6 +16,43 @@ enum Environment {
   Test = 'test',
 }
 
+enum PriceFeed {
+  Poll = 'poll',
+  Kafka = 'kafka',
+}
+
+enum MockPriceMode {
+  Gbm = 'gbm',
+  Random = 'random',
+}
+
+enum AggregationMethod {
+  Median = 'median',
+  TrimmedMean = 'trimmed-mean',
+  WeightedMean = 'weighted-mean',
+}
+
+enum KafkaCompression {
+  None = 'none',
+  Gzip = 'gzip',
+  Lz4 = 'lz4',
+}
+
+enum KafkaUnavailableMode {
+  Buffer = 'buffer',
+  Pause = 'pause',
+}
+
+enum LeaderElectionMode {
+  Lock = 'lock',
+  None = 'none',
+}
+
+enum DeadLetterStore {
+  Table = 'table',
+  Kafka = 'kafka',
+}
+
 export class EnvironmentVariables {
   @IsEnum(Environment)
   @IsOptional()
@@ -54,12 +100,284 @@ export class EnvironmentVariables {
   @IsOptional()
   KAFKA_TOPIC = 'token-price-updates';
 
+  @IsString()
+  @IsOptional()
+  KAFKA_CANDLE_TOPIC = 'token-price-candles';
+
+  @IsString()
+  @IsOptional()
+  KAFKA_STALE_TOPIC = 'token-price-stale';
+
+  @IsString()
+  @IsOptional()
+  KAFKA_STATE_TOPIC = 'token-price-update-state';
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  KAFKA_BATCH_MAX_SIZE = 500;
+
+  @IsEnum(KafkaCompression)
+  @IsOptional()
+  KAFKA_COMPRESSION: KafkaCompression = KafkaCompression.None;
+
+  // -1 waits for all in-sync replicas, 1 for the leader only, 0 for none
+  @IsNumber()
+  @Min(-1)
+  @Max(1)
+  @IsOptional()
+  KAFKA_ACKS = -1;
+
+  @IsString()
+  @IsOptional()
+  KAFKA_PRODUCER_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  KAFKA_QUOTE_TOPIC = 'price-quotes';
+
+  @IsString()
+  @IsOptional()
+  KAFKA_CONSUMER_GROUP_ID = 'token-price-service';
+
+  @IsEnum(KafkaUnavailableMode)
+  @IsOptional()
+  KAFKA_UNAVAILABLE_MODE: KafkaUnavailableMode = KafkaUnavailableMode.Buffer;
+
   // Application
   @IsNumber()
   @Min(1)
   @Max(3600)
   @IsOptional()
   PRICE_UPDATE_INTERVAL_SECONDS = 5;
+
+  @IsString()
+  @IsOptional()
+  PRICE_REFRESH_SECONDS_BY_PRIORITY = '';
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  PRICE_SCHEDULE_SYNC_SECONDS = 30;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  PRICE_UPDATE_CONCURRENCY = 10;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  PRICE_UPDATE_TIMEOUT_MS = 10000;
+
+  @IsEnum(PriceFeed)
+  @IsOptional()
+  PRICE_FEED: PriceFeed = PriceFeed.Poll;
+
+  // Price providers
+  @IsString()
+  @IsOptional()
+  PRICE_PROVIDER = 'mock';
+
+  @IsString()
+  @IsOptional()
+  PRICE_PROVIDER_CHAINS = '';
+
+  @IsString()
+  @IsOptional()
+  PRICE_PROVIDER_TOKENS = '';
+
+  @IsString()
+  @IsOptional()
+  PRICE_FIXTURE_PATH = 'fixtures/prices.json';
+
+  // Price aggregation
+  @IsEnum(AggregationMethod)
+  @IsOptional()
+  PRICE_AGGREGATION_METHOD: AggregationMethod = AggregationMethod.Median;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  PRICE_MAX_DEVIATION_BPS = 500;
+
+  @IsNumber()
+  @Min(0)
+  @Max(0.5)
+  @IsOptional()
+  PRICE_TRIM_RATIO = 0.2;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  PRICE_MIN_SOURCES = 1;
+
+  @IsString()
+  @IsOptional()
+  PRICE_SOURCE_WEIGHTS = '';
+
+  @IsString()
+  @IsOptional()
+  PRICE_PROVIDER_RATE_LIMITS = '';
+
+  // Mock price simulator
+  @IsEnum(MockPriceMode)
+  @IsOptional()
+  MOCK_PRICE_MODE: MockPriceMode = MockPriceMode.Gbm;
+
+  @IsNumber()
+  @IsOptional()
+  MOCK_PRICE_SEED?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  MOCK_PRICE_STEP_SECONDS?: number;
+
+  @IsNumber()
+  @IsOptional()
+  MOCK_PRICE_DRIFT = 0;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  MOCK_PRICE_VOLATILITY = 0.8;
+
+  @IsString()
+  @IsOptional()
+  MOCK_PRICE_TOKEN_PARAMS = '';
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  MOCK_PRICE_SHOCK_PROBABILITY = 0;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  MOCK_PRICE_SHOCK_MAGNITUDE = 0.1;
+
+  // Publishing
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  PUBLISH_DEVIATION_BPS = 10;
+
+  @IsString()
+  @IsOptional()
+  PUBLISH_DEVIATION_BPS_BY_PRIORITY = '';
+
+  @IsString()
+  @IsOptional()
+  PUBLISH_DEVIATION_BPS_BY_TOKEN = '';
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  PUBLISH_HEARTBEAT_SECONDS = 60;
+
+  // Outbox
+  @IsNumber()
+  @Min(100)
+  @IsOptional()
+  OUTBOX_POLL_INTERVAL_MS = 1000;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  OUTBOX_BATCH_SIZE = 100;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  OUTBOX_RETRY_DELAY_MS = 1000;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  OUTBOX_MAX_RETRY_DELAY_MS = 60000;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  OUTBOX_RETENTION_HOURS = 24;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  OUTBOX_MAX_ATTEMPTS = 10;
+
+  // Dead letters
+  @IsEnum(DeadLetterStore)
+  @IsOptional()
+  DEAD_LETTER_STORE: DeadLetterStore = DeadLetterStore.Table;
+
+  @IsString()
+  @IsOptional()
+  KAFKA_DLQ_TOPIC = 'token-price-service.dlq';
+
+  // Circuit breakers
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD = 5;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  CIRCUIT_BREAKER_RESET_SECONDS = 30;
+
+  // Leader election
+  @IsEnum(LeaderElectionMode)
+  @IsOptional()
+  LEADER_ELECTION: LeaderElectionMode = LeaderElectionMode.Lock;
+
+  @IsNumber()
+  @IsOptional()
+  LEADER_ELECTION_LOCK_KEY = 724519;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  LEADER_ELECTION_RENEW_SECONDS = 5;
+
+  // Health checks
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  HEALTH_STALE_CYCLE_INTERVALS = 3;
+
+  // Staleness watchdog
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  PRICE_STALE_CHECK_SECONDS = 15;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  PRICE_STALE_SECONDS = 300;
+
+  @IsString()
+  @IsOptional()
+  PRICE_STALE_SECONDS_BY_PRIORITY = '';
+
+  // Quote currencies
+  @IsString()
+  @Matches(/^[A-Za-z0-9]{2,10}(,[A-Za-z0-9]{2,10})*$/)
+  @IsOptional()
+  PRICE_QUOTES = 'USD';
+
+  @IsString()
+  @IsOptional()
+  PRICE_QUOTE_TOKENS = '';
+
+  // Admin API
+  @IsString()
+  @IsOptional()
+  ADMIN_API_KEYS = '';
 }
 
 export function validate(config: Record<string, unknown>): EnvironmentVariables {
@@ -0,0 +1,387 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { DuplicateEntityError, TokenAdminService } from '../services/token-admin.service';
+import { QuoteConversionService } from '../services/quote-conversion.service';
+import { PriceUpdatePauseService } from '../services/price-update-pause.service';
+import { PriceOverrideService } from '../services/price-override.service';
+import { AdminAuthGuard, AdminAuthor } from '../common/admin-auth.guard';
+import { ZodValidationPipe } from '../common/zod-validation.pipe';
+import {
+  CreateChainRequest,
+  CreateLogoRequest,
+  CreateTokenRequest,
+  UpdateChainRequest,
+  UpdateLogoRequest,
+  UpdateTokenRequest,
+  createChainSchema,
+  createLogoSchema,
+  createTokenSchema,
+  updateChainSchema,
+  updateLogoSchema,
+  updateTokenSchema,
+} from '../models/admin.schema';
+import {
+  PriceOverrideListQuery,
+  PriceOverrideRequest,
+  PriceOverrideResponse,
+  priceOverrideListQuerySchema,
+  priceOverrideSchema,
+  toPriceOverrideResponse,
+} from '../models/price-override.schema';
+import {
+  ChainResponse,
+  LogoResponse,
+  PaginatedResponse,
+  TokenResponse,
+  toChainResponse,
+  toLogoResponse,
+  toTokenResponse,
+} from '../models/token-response';
+import { Token } from '../models/token.entity';
+
+export interface PriceUpdateStateResponse {
+  isPaused: boolean;
+  lastUpdateAuthor: string | null;
+  updatedAt: Date;
+}
+
+export interface ProtectionResponse {
+  isProtected: boolean;
+  // False if it already was in that state
+  changed: boolean;
+}
+
+export interface PauseResponse {
+  isPaused: boolean;
+  // False if it already was in that state
+  changed: boolean;
+}
+
+// Token, chain and logo lifecycle, pausing price updates and pinning prices;
+// every endpoint requires an admin API key
+@Controller('admin')
+@UseGuards(AdminAuthGuard)
+export class AdminController {
+  constructor(
+    private readonly adminService: TokenAdminService,
+    private readonly quoteConversion: QuoteConversionService,
+    private readonly pauseService: PriceUpdatePauseService,
+    private readonly overrideService: PriceOverrideService,
+  ) {}
+
+  @Post('chains')
+  async createChain(
+    @Body(new ZodValidationPipe(createChainSchema)) body: CreateChainRequest,
+    @AdminAuthor() author: string,
+  ): Promise<ChainResponse> {
+    return toChainResponse(await this.rejectDuplicate(this.adminService.createChain(body, author)));
+  }
+
+  @Patch('chains/:id')
+  async updateChain(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(updateChainSchema)) body: UpdateChainRequest,
+    @AdminAuthor() author: string,
+  ): Promise<ChainResponse> {
+    const chain = await this.findChain(id);
+    return toChainResponse(
+      await this.rejectDuplicate(this.adminService.updateChain(chain, body, author)),
+    );
+  }
+
+  @Delete('chains/:id')
+  @HttpCode(204)
+  async deleteChain(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<void> {
+    const chain = await this.findChain(id);
+    const tokenCount = await this.adminService.countChainTokens(id);
+    if (tokenCount > 0) {
+      throw new ConflictException(`Chain ${id} still has ${tokenCount} token(s)`);
+    }
+    await this.adminService.deleteChain(chain, author);
+  }
+
+  @Post('logos')
+  async createLogo(
+    @Body(new ZodValidationPipe(createLogoSchema)) body: CreateLogoRequest,
+    @AdminAuthor() author: string,
+  ): Promise<LogoResponse> {
+    return toLogoResponse(await this.adminService.createLogo(body, author));
+  }
+
+  @Patch('logos/:id')
+  async updateLogo(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(updateLogoSchema)) body: UpdateLogoRequest,
+    @AdminAuthor() author: string,
+  ): Promise<LogoResponse> {
+    const logo = await this.findLogo(id);
+    return toLogoResponse(await this.adminService.updateLogo(logo, body, author));
+  }
+
+  @Delete('logos/:id')
+  @HttpCode(204)
+  async deleteLogo(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<void> {
+    await this.adminService.deleteLogo(await this.findLogo(id), author);
+  }
+
+  @Post('tokens')
+  async createToken(
+    @Body(new ZodValidationPipe(createTokenSchema)) body: CreateTokenRequest,
+    @AdminAuthor() author: string,
+  ): Promise<TokenResponse> {
+    await this.findChain(body.chainId);
+    await this.checkLogo(body.logoId);
+
+    return this.toResponse(await this.rejectDuplicate(this.adminService.createToken(body, author)));
+  }
+
+  // A protected token has to be unprotected before it can be changed
+  @Patch('tokens/:id')
+  async updateToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(updateTokenSchema)) body: UpdateTokenRequest,
+    @AdminAuthor() author: string,
+  ): Promise<TokenResponse> {
+    const token = await this.findToken(id);
+    if (token.isProtected) {
+      throw new ForbiddenException(`Token ${id} is protected, unprotect it before changing it`);
+    }
+    if (body.chainId !== undefined) {
+      await this.findChain(body.chainId);
+    }
+    await this.checkLogo(body.logoId, id);
+
+    return this.toResponse(
+      await this.rejectDuplicate(this.adminService.updateToken(token, body, author)),
+    );
+  }
+
+  @Delete('tokens/:id')
+  @HttpCode(204)
+  async deleteToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<void> {
+    const token = await this.findToken(id);
+    if (token.isProtected) {
+      throw new ForbiddenException(`Token ${id} is protected, unprotect it before deleting it`);
+    }
+    await this.adminService.deleteToken(token, author);
+  }
+
+  @Post('tokens/:id/protect')
+  @HttpCode(200)
+  async protectToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<ProtectionResponse> {
+    const token = await this.findToken(id);
+    return {
+      isProtected: true,
+      changed: await this.adminService.setTokenProtected(token, true, author),
+    };
+  }
+
+  @Post('tokens/:id/unprotect')
+  @HttpCode(200)
+  async unprotectToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<ProtectionResponse> {
+    const token = await this.findToken(id);
+    return {
+      isProtected: false,
+      changed: await this.adminService.setTokenProtected(token, false, author),
+    };
+  }
+
+  @Get('price-updates')
+  async getPriceUpdateState(): Promise<PriceUpdateStateResponse> {
+    const { isPaused, lastUpdateAuthor, updatedAt } = await this.pauseService.getServiceState();
+    return { isPaused, lastUpdateAuthor, updatedAt };
+  }
+
+  // Pausing stops the price pipeline on every instance until resumed; each
+  // change is published to KAFKA_STATE_TOPIC
+  @Post('price-updates/pause')
+  @HttpCode(200)
+  async pausePriceUpdates(@AdminAuthor() author: string): Promise<PauseResponse> {
+    return { isPaused: true, changed: await this.pauseService.setServicePaused(true, author) };
+  }
+
+  @Post('price-updates/resume')
+  @HttpCode(200)
+  async resumePriceUpdates(@AdminAuthor() author: string): Promise<PauseResponse> {
+    return { isPaused: false, changed: await this.pauseService.setServicePaused(false, author) };
+  }
+
+  @Post('chains/:id/pause')
+  @HttpCode(200)
+  async pauseChain(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<PauseResponse> {
+    const chain = await this.findChain(id);
+    return {
+      isPaused: true,
+      changed: await this.pauseService.setChainEnabled(chain, false, author),
+    };
+  }
+
+  @Post('chains/:id/resume')
+  @HttpCode(200)
+  async resumeChain(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<PauseResponse> {
+    const chain = await this.findChain(id);
+    return {
+      isPaused: false,
+      changed: await this.pauseService.setChainEnabled(chain, true, author),
+    };
+  }
+
+  @Post('tokens/:id/pause')
+  @HttpCode(200)
+  async pauseToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<PauseResponse> {
+    const token = await this.findToken(id);
+    return { isPaused: true, changed: await this.pauseService.setTokenPaused(token, true, author) };
+  }
+
+  @Post('tokens/:id/resume')
+  @HttpCode(200)
+  async resumeToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<PauseResponse> {
+    const token = await this.findToken(id);
+    return {
+      isPaused: false,
+      changed: await this.pauseService.setTokenPaused(token, false, author),
+    };
+  }
+
+  // Only protected tokens take a manual price. The pinned price is published
+  // with reason 'override' and kept by the pipeline until unpinned or expired.
+  @Post('tokens/:id/override')
+  @HttpCode(200)
+  async pinPrice(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(priceOverrideSchema)) body: PriceOverrideRequest,
+    @AdminAuthor() author: string,
+  ): Promise<TokenResponse> {
+    const token = await this.findToken(id);
+    if (!token.isProtected) {
+      throw new ForbiddenException(
+        `Token ${id} is not protected, only protected tokens are pinned`,
+      );
+    }
+
+    await this.overrideService.pin(token, body.price, {
+      expiresAt: body.expiresAt ?? null,
+      reason: body.reason ?? null,
+      author,
+    });
+    return this.toResponse(await this.findToken(id));
+  }
+
+  @Delete('tokens/:id/override')
+  async unpinPrice(
+    @Param('id', ParseUUIDPipe) id: string,
+    @AdminAuthor() author: string,
+  ): Promise<TokenResponse> {
+    const token = await this.findToken(id);
+    if (!(await this.overrideService.unpin(token, author))) {
+      throw new ConflictException(`Price of token ${id} is not pinned`);
+    }
+    return this.toResponse(await this.findToken(id));
+  }
+
+  @Get('overrides')
+  async listOverrides(
+    @Query(new ZodValidationPipe(priceOverrideListQuerySchema)) query: PriceOverrideListQuery,
+  ): Promise<PaginatedResponse<PriceOverrideResponse>> {
+    const { overrides, total } = await this.overrideService.list(query);
+
+    return {
+      items: overrides.map(toPriceOverrideResponse),
+      total,
+      page: query.page,
+      limit: query.limit,
+    };
+  }
+
+  private async findChain(id: string) {
+    const chain = await this.adminService.findChain(id);
+    if (!chain) {
+      throw new NotFoundException(`Chain ${id} not found`);
+    }
+    return chain;
+  }
+
+  private async findLogo(id: string) {
+    const logo = await this.adminService.findLogo(id);
+    if (!logo) {
+      throw new NotFoundException(`Logo ${id} not found`);
+    }
+    return logo;
+  }
+
+  private async findToken(id: string) {
+    const token = await this.adminService.findToken(id);
+    if (!token) {
+      throw new NotFoundException(`Token ${id} not found`);
+    }
+    return token;
+  }
+
+  // A logo belongs to one token at most
+  private async checkLogo(logoId: string | null | undefined, tokenId?: string): Promise<void> {
+    if (!logoId) {
+      return;
+    }
+    await this.findLogo(logoId);
+    if (await this.adminService.isLogoInUse(logoId, tokenId)) {
+      throw new ConflictException(`Logo ${logoId} is used by another token`);
+    }
+  }
+
+  private async rejectDuplicate<T>(write: Promise<T>): Promise<T> {
+    try {
+      return await write;
+    } catch (error) {
+      if (error instanceof DuplicateEntityError) {
+        throw new ConflictException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Admin responses carry the stored price, in the base quote
+  private toResponse(token: Token): TokenResponse {
+    return toTokenResponse(token, this.quoteConversion.baseQuote, token.price);
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { TokenQueryService } from '../services/token-query.service';
+import { QuoteConversionService } from '../services/quote-conversion.service';
+import { ZodValidationPipe } from '../common/zod-validation.pipe';
+import {
+  TokenAddressParams,
+  TokenQuoteQuery,
+  tokenAddressParamsSchema,
+  tokenQuoteQuerySchema,
+} from '../models/token-query.schema';
+import {
+  ChainWithTokenCountResponse,
+  TokenResponse,
+  toChainWithTokenCountResponse,
+  toTokenResponse,
+} from '../models/token-response';
+
+@Controller('chains')
+export class ChainsController {
+  constructor(
+    private readonly tokenQueryService: TokenQueryService,
+    private readonly quoteConversion: QuoteConversionService,
+  ) {}
+
+  @Get()
+  async listChains(): Promise<ChainWithTokenCountResponse[]> {
+    const chains = await this.tokenQueryService.listChainsWithTokenCounts();
+    return chains.map(({ chain, tokenCount }) => toChainWithTokenCountResponse(chain, tokenCount));
+  }
+
+  @Get(':chainId/tokens/:address')
+  async getTokenByAddress(
+    @Param(new ZodValidationPipe(tokenAddressParamsSchema)) params: TokenAddressParams,
+    @Query(new ZodValidationPipe(tokenQuoteQuerySchema)) query: TokenQuoteQuery,
+  ): Promise<TokenResponse> {
+    const token = await this.tokenQueryService.findTokenByAddress(params.chainId, params.address);
+    if (!token) {
+      throw new NotFoundException(
+        `Token 0x${params.address.toString('hex')} not found on chain ${params.chainId}`,
+      );
+    }
+
+    const quote = query.quote ?? this.quoteConversion.baseQuote;
+    if (!this.quoteConversion.isSupported(quote)) {
+      throw new BadRequestException(
+        `Unsupported quote "${quote}", expected one of: ${this.quoteConversion.quotes.join(', ')}`,
+      );
+    }
+
+    const price = (await this.quoteConversion.getQuotedPrices([token], quote)).get(token.id);
+    return toTokenResponse(token, quote, price ?? null);
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { DeadLetterService } from '../kafka/dead-letter.service';
+import { AdminAuthGuard } from '../common/admin-auth.guard';
+import { ZodValidationPipe } from '../common/zod-validation.pipe';
+import { PaginatedResponse } from '../models/token-response';
+import {
+  DeadLetterListQuery,
+  DeadLetterReplayRequest,
+  DeadLetterResponse,
+  deadLetterListQuerySchema,
+  deadLetterReplaySchema,
+  toDeadLetterResponse,
+} from '../models/dead-letter.schema';
+
+// Dead letters in the dead-letter store, the dead_letter_messages table or
+// with DEAD_LETTER_STORE=kafka the DLQ topic; replaying and discarding require
+// an admin API key.
+@Controller('dead-letters')
+export class DeadLettersController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @Get()
+  async listDeadLetters(
+    @Query(new ZodValidationPipe(deadLetterListQuerySchema)) query: DeadLetterListQuery,
+  ): Promise<PaginatedResponse<DeadLetterResponse>> {
+    const { messages, total } = await this.deadLetterService.list(query);
+
+    return {
+      items: messages.map(toDeadLetterResponse),
+      total,
+      page: query.page,
+      limit: query.limit,
+    };
+  }
+
+  @Get(':id')
+  async getDeadLetter(@Param('id', ParseUUIDPipe) id: string): Promise<DeadLetterResponse> {
+    return toDeadLetterResponse(await this.findDeadLetter(id, false));
+  }
+
+  @Post('replay')
+  @HttpCode(200)
+  @UseGuards(AdminAuthGuard)
+  async replayAll(
+    @Body(new ZodValidationPipe(deadLetterReplaySchema)) body: DeadLetterReplayRequest,
+  ): Promise<{ replayed: number }> {
+    return { replayed: await this.deadLetterService.replayAll(body.topic) };
+  }
+
+  @Post(':id/replay')
+  @HttpCode(200)
+  @UseGuards(AdminAuthGuard)
+  async replay(@Param('id', ParseUUIDPipe) id: string): Promise<{ replayed: number }> {
+    await this.findDeadLetter(id, true);
+    return { replayed: await this.deadLetterService.replay([id]) };
+  }
+
+  @Post(':id/discard')
+  @HttpCode(200)
+  @UseGuards(AdminAuthGuard)
+  async discard(@Param('id', ParseUUIDPipe) id: string): Promise<{ discarded: number }> {
+    await this.findDeadLetter(id, true);
+    return { discarded: await this.deadLetterService.discard([id]) };
+  }
+
+  private async findDeadLetter(id: string, requirePending: boolean) {
+    const message = await this.deadLetterService.findById(id);
+    if (!message) {
+      throw new NotFoundException(`Dead-letter message ${id} not found`);
+    }
+    if (requirePending && message.status !== 'pending') {
+      throw new ConflictException(`Dead-letter message ${id} is already ${message.status}`);
+    }
+    return message;
+  }
+}
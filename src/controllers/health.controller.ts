@@ -0,0 +1,52 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { CircuitBreakerRegistry } from '../common/circuit-breaker.registry';
+import { CircuitBreakerStatus } from '../common/circuit-breaker';
+import { LeaderElectionService } from '../services/leader-election.service';
+import { HealthService, ProbeResult } from '../services/health.service';
+
+export interface HealthResponse {
+  // "degraded" while any circuit is not closed
+  status: 'ok' | 'degraded';
+  // Whether this instance currently runs the price update scheduler
+  isLeader: boolean;
+  circuitBreakers: CircuitBreakerStatus[];
+}
+
+@Controller('health')
+export class HealthController {
+  constructor(
+    private readonly circuitBreakers: CircuitBreakerRegistry,
+    private readonly leaderElection: LeaderElectionService,
+    private readonly healthService: HealthService,
+  ) {}
+
+  @Get()
+  getHealth(): HealthResponse {
+    const circuitBreakers = this.circuitBreakers.list();
+
+    return {
+      status: circuitBreakers.every(breaker => breaker.state === 'closed') ? 'ok' : 'degraded',
+      isLeader: this.leaderElection.isLeader,
+      circuitBreakers,
+    };
+  }
+
+  // Answers 503 when the process should be restarted
+  @Get('live')
+  getLiveness(): ProbeResult {
+    return this.toResponse(this.healthService.checkLiveness());
+  }
+
+  // Answers 503 while the instance should not receive traffic
+  @Get('ready')
+  async getReadiness(): Promise<ProbeResult> {
+    return this.toResponse(await this.healthService.checkReadiness());
+  }
+
+  private toResponse(result: ProbeResult): ProbeResult {
+    if (result.status === 'down') {
+      throw new ServiceUnavailableException(result);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, NotFoundException, Param } from '@nestjs/common';
+import { QuoteConversionService } from '../services/quote-conversion.service';
+import { formatPrice } from '../common/price-decimal';
+
+// Rate with the price as a decimal string
+export interface CrossRateResponse {
+  base: string;
+  quote: string;
+  rate: string;
+  timestamp: Date;
+}
+
+@Controller('rates')
+export class RatesController {
+  constructor(private readonly quoteConversion: QuoteConversionService) {}
+
+  // Units of quote per unit of base; each side is a supported quote currency,
+  // a token id or a token symbol, e.g. /rates/SOL/ETH or /rates/BTC/EUR
+  @Get(':base/:quote')
+  async getRate(
+    @Param('base') base: string,
+    @Param('quote') quote: string,
+  ): Promise<CrossRateResponse> {
+    const rate = await this.quoteConversion.getCrossRate(base, quote);
+    if (!rate) {
+      throw new NotFoundException(`No rate for ${base}/${quote}`);
+    }
+
+    return { ...rate, rate: formatPrice(rate.rate) };
+  }
+}
@@ -0,0 +1,23 @@
+import { Controller, Get, NotFoundException, Param, ParseUUIDPipe } from '@nestjs/common';
+import { PriceUpdateScheduler, TokenSchedule } from '../services/price-update.scheduler';
+
+@Controller('schedule')
+export class ScheduleController {
+  constructor(private readonly scheduler: PriceUpdateScheduler) {}
+
+  // Next scheduled price refresh of every token, soonest first
+  @Get()
+  listSchedules(): TokenSchedule[] {
+    return this.scheduler.listSchedules();
+  }
+
+  @Get(':tokenId')
+  getSchedule(@Param('tokenId', ParseUUIDPipe) tokenId: string): TokenSchedule {
+    const schedule = this.scheduler.getSchedule(tokenId);
+    if (!schedule) {
+      throw new NotFoundException(`Token ${tokenId} is not scheduled`);
+    }
+
+    return schedule;
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Query,
+} from '@nestjs/common';
+import { TokenQueryService } from '../services/token-query.service';
+import { QuoteConversionService } from '../services/quote-conversion.service';
+import { PriceHistoryService, SeriesTooLargeError } from '../services/price-history.service';
+import { CandleAggregatorService } from '../services/candle-aggregator.service';
+import { ZodValidationPipe } from '../common/zod-validation.pipe';
+import {
+  TokenListQuery,
+  TokenQuoteQuery,
+  tokenListQuerySchema,
+  tokenQuoteQuerySchema,
+} from '../models/token-query.schema';
+import { Token } from '../models/token.entity';
+import { PaginatedResponse, TokenResponse, toTokenResponse } from '../models/token-response';
+import {
+  PriceHistoryQuery,
+  PriceSeriesResponse,
+  priceHistoryQuerySchema,
+} from '../models/price-history.schema';
+import {
+  CandleQuery,
+  CandleSeriesResponse,
+  candleQuerySchema,
+  toCandleResponse,
+} from '../models/candle.schema';
+
+@Controller('tokens')
+export class TokensController {
+  constructor(
+    private readonly tokenQueryService: TokenQueryService,
+    private readonly priceHistoryService: PriceHistoryService,
+    private readonly candleAggregator: CandleAggregatorService,
+    private readonly quoteConversion: QuoteConversionService,
+  ) {}
+
+  @Get()
+  async listTokens(
+    @Query(new ZodValidationPipe(tokenListQuerySchema)) query: TokenListQuery,
+  ): Promise<PaginatedResponse<TokenResponse>> {
+    const { tokens, total } = await this.tokenQueryService.listTokens(query);
+
+    return {
+      items: await this.toQuotedResponses(tokens, query.quote),
+      total,
+      page: query.page,
+      limit: query.limit,
+    };
+  }
+
+  @Get(':id')
+  async getToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query(new ZodValidationPipe(tokenQuoteQuerySchema)) query: TokenQuoteQuery,
+  ): Promise<TokenResponse> {
+    const token = await this.tokenQueryService.findTokenById(id);
+    if (!token) {
+      throw new NotFoundException(`Token ${id} not found`);
+    }
+
+    const [response] = await this.toQuotedResponses([token], query.quote);
+    return response;
+  }
+
+  @Get(':id/prices')
+  async getPriceSeries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query(new ZodValidationPipe(priceHistoryQuerySchema)) query: PriceHistoryQuery,
+  ): Promise<PriceSeriesResponse> {
+    const token = await this.tokenQueryService.findTokenById(id);
+    if (!token) {
+      throw new NotFoundException(`Token ${id} not found`);
+    }
+
+    try {
+      const points = await this.priceHistoryService.getSeries(id, query);
+      return {
+        tokenId: id,
+        from: query.from,
+        to: query.to,
+        stepSeconds: query.stepSeconds,
+        points,
+      };
+    } catch (error) {
+      if (error instanceof SeriesTooLargeError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  @Get(':id/candles')
+  async getCandles(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query(new ZodValidationPipe(candleQuerySchema)) query: CandleQuery,
+  ): Promise<CandleSeriesResponse> {
+    const token = await this.tokenQueryService.findTokenById(id);
+    if (!token) {
+      throw new NotFoundException(`Token ${id} not found`);
+    }
+
+    const candles = await this.candleAggregator.getCandles(
+      id,
+      query.resolution,
+      query.from,
+      query.to,
+    );
+
+    return { tokenId: id, ...query, candles: candles.map(toCandleResponse) };
+  }
+
+  // Prices the tokens in the requested quote, the base quote by default
+  private async toQuotedResponses(
+    tokens: Token[],
+    quote = this.quoteConversion.baseQuote,
+  ): Promise<TokenResponse[]> {
+    if (!this.quoteConversion.isSupported(quote)) {
+      throw new BadRequestException(
+        `Unsupported quote "${quote}", expected one of: ${this.quoteConversion.quotes.join(', ')}`,
+      );
+    }
+
+    // A token without a price in the quote yet is returned with a null price
+    const prices = await this.quoteConversion.getQuotedPrices(tokens, quote);
+    return tokens.map(token => toTokenResponse(token, quote, prices.get(token.id) ?? null));
+  }
+}
@@ -2,9 +2,27 @@ import { DataSource } from 'typeorm';
 import { Token } from '../models/token.entity';
 import { Chain } from '../models/chain.entity';
 import { Logo } from '../models/logo.entity';
+import { TokenPriceHistory } from '../models/token-price-history.entity';
+import { TokenPriceCandle } from '../models/token-price-candle.entity';
+import { OutboxMessage } from '../models/outbox-message.entity';
+import { DeadLetterMessage } from '../models/dead-letter-message.entity';
+import { TokenQuotePrice } from '../models/token-quote-price.entity';
+import { PriceUpdateState } from '../models/price-update-state.entity';
+import { TokenPriceOverride } from '../models/token-price-override.entity';
 import { InitialMigration1684654321000 } from '../migrations/1684654321000-InitialMigration';
 import { FixPriceDecimalPrecision1684654322000 } from '../migrations/1684654322000-FixPriceDecimalPrecision';
 import { NormalizeDatabase1684654323000 } from '../migrations/1684654323000-NormalizeDatabase';
+import { AddTokenPriceHistory1684654324000 } from '../migrations/1684654324000-AddTokenPriceHistory';
+import { AddTokenPriceCandles1684654325000 } from '../migrations/1684654325000-AddTokenPriceCandles';
+import { AddOutbox1684654326000 } from '../migrations/1684654326000-AddOutbox';
+import { AddDeadLetterMessages1684654327000 } from '../migrations/1684654327000-AddDeadLetterMessages';
+import { AddTokenRefreshInterval1684654328000 } from '../migrations/1684654328000-AddTokenRefreshInterval';
+import { AddTokenStaleness1684654329000 } from '../migrations/1684654329000-AddTokenStaleness';
+import { AddTokenQuotePrices1684654330000 } from '../migrations/1684654330000-AddTokenQuotePrices';
+import { AddAdminLifecycle1684654331000 } from '../migrations/1684654331000-AddAdminLifecycle';
+import { AddPriceUpdatePauses1684654332000 } from '../migrations/1684654332000-AddPriceUpdatePauses';
+import { AddTokenPriceOverrides1684654333000 } from '../migrations/1684654333000-AddTokenPriceOverrides';
+import { AddOutboxSequence1684654334000 } from '../migrations/1684654334000-AddOutboxSequence';
 
 export const AppDataSource = new DataSource({
   type: 'postgres',
@@ -13,11 +31,33 @@ export const AppDataSource = new DataSource({
   username: 'postgres',
   password: 'postgres',
   database: 'tokens',
-  entities: [Token, Chain, Logo],
+  entities: [
+    Token,
+    Chain,
+    Logo,
+    TokenPriceHistory,
+    TokenPriceCandle,
+    OutboxMessage,
+    DeadLetterMessage,
+    TokenQuotePrice,
+    PriceUpdateState,
+    TokenPriceOverride,
+  ],
   migrations: [
     InitialMigration1684654321000,
     FixPriceDecimalPrecision1684654322000,
     NormalizeDatabase1684654323000,
+    AddTokenPriceHistory1684654324000,
+    AddTokenPriceCandles1684654325000,
+    AddOutbox1684654326000,
+    AddDeadLetterMessages1684654327000,
+    AddTokenRefreshInterval1684654328000,
+    AddTokenStaleness1684654329000,
+    AddTokenQuotePrices1684654330000,
+    AddAdminLifecycle1684654331000,
+    AddPriceUpdatePauses1684654332000,
+    AddTokenPriceOverrides1684654333000,
+    AddOutboxSequence1684654334000,
   ],
   synchronize: false, // Set to false when using migrations
   logging: true,
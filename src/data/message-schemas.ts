@@ -0,0 +1,96 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { PUBLISHED_MESSAGE_SCHEMAS, PublishedMessageSchema } from '../models/message-schemas';
+import { JsonSchema, findBreakingChanges } from '../common/json-schema-compatibility';
+
+const SCHEMAS_DIR = join(__dirname, '..', '..', 'schemas');
+
+// Usage: npm run schemas:generate | npm run schemas:check
+function toJsonSchema({ name, version, schema }: PublishedMessageSchema): JsonSchema {
+  return {
+    $id: `${name}/v${version}.json`,
+    title: `${name} v${version}`,
+    ...(zodToJsonSchema(schema, {
+      target: 'jsonSchema7',
+      // Objects accept unknown properties so new optional fields stay compatible
+      removeAdditionalStrategy: 'strict',
+      $refStrategy: 'none',
+    }) as JsonSchema),
+  };
+}
+
+function schemaPath({ name, version }: PublishedMessageSchema): string {
+  return join(SCHEMAS_DIR, name, `v${version}.json`);
+}
+
+function readPublished(entry: PublishedMessageSchema): JsonSchema | null {
+  const path = schemaPath(entry);
+  return existsSync(path) ? (JSON.parse(readFileSync(path, 'utf8')) as JsonSchema) : null;
+}
+
+function serialize(schema: JsonSchema): string {
+  return `${JSON.stringify(schema, null, 2)}\n`;
+}
+
+// Returns the problems found for one schema, empty if the published file is current
+function check(entry: PublishedMessageSchema): string[] {
+  const label = `${entry.name} v${entry.version}`;
+  const published = readPublished(entry);
+  if (!published) {
+    return [`${label} is not published, run npm run schemas:generate`];
+  }
+
+  const generated = toJsonSchema(entry);
+  const breaking = findBreakingChanges(published, generated);
+  if (breaking.length > 0) {
+    return [
+      `${label} has breaking changes, bump its schema version:`,
+      ...breaking.map(change => `  ${change}`),
+    ];
+  }
+
+  if (serialize(published) !== serialize(generated)) {
+    return [`${label} is out of date, run npm run schemas:generate`];
+  }
+  return [];
+}
+
+function generate(entry: PublishedMessageSchema): string[] {
+  const label = `${entry.name} v${entry.version}`;
+  const generated = toJsonSchema(entry);
+
+  // A published version may only evolve compatibly
+  const published = readPublished(entry);
+  if (published) {
+    const breaking = findBreakingChanges(published, generated);
+    if (breaking.length > 0) {
+      return [
+        `Refusing to overwrite ${label} with breaking changes, bump its schema version:`,
+        ...breaking.map(change => `  ${change}`),
+      ];
+    }
+  }
+
+  const path = schemaPath(entry);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, serialize(generated));
+  console.log(`Wrote ${path}`);
+  return [];
+}
+
+function run(command: string | undefined): number {
+  if (command !== 'generate' && command !== 'check') {
+    console.error('Usage: message-schemas <generate|check>');
+    return 1;
+  }
+
+  const problems = PUBLISHED_MESSAGE_SCHEMAS.flatMap(command === 'generate' ? generate : check);
+  problems.forEach(problem => console.error(problem));
+  if (problems.length === 0 && command === 'check') {
+    console.log(`${PUBLISHED_MESSAGE_SCHEMAS.length} message schema(s) are up to date`);
+  }
+  return problems.length > 0 ? 1 : 0;
+}
+
+process.exit(run(process.argv[2]));
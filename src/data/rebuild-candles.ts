@@ -0,0 +1,75 @@
+import { AppDataSource } from './data-source';
+import { Token } from '../models/token.entity';
+import { TokenPriceHistory } from '../models/token-price-history.entity';
+import { TokenPriceCandle } from '../models/token-price-candle.entity';
+import { CandleAggregatorService } from '../services/candle-aggregator.service';
+
+// Usage: npm run candles:rebuild -- [tokenId] [--from <ISO date>] [--to <ISO date>]
+function parseArgs(argv: string[]): { tokenId?: string; from?: Date; to?: Date } {
+  const args: { tokenId?: string; from?: Date; to?: Date } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--from') {
+      args.from = new Date(argv[++i]);
+    } else if (argv[i] === '--to') {
+      args.to = new Date(argv[++i]);
+    } else {
+      args.tokenId = argv[i];
+    }
+  }
+
+  return args;
+}
+
+async function rebuildCandles() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+
+    // Initialize the data source
+    await AppDataSource.initialize();
+    console.log('Data source has been initialized');
+
+    const candleAggregator = new CandleAggregatorService(
+      AppDataSource.getRepository(TokenPriceCandle),
+    );
+    const historyRepository = AppDataSource.getRepository(TokenPriceHistory);
+
+    const tokenIds = args.tokenId
+      ? [args.tokenId]
+      : (await AppDataSource.getRepository(Token).find({ select: { id: true } })).map(t => t.id);
+
+    for (const tokenId of tokenIds) {
+      const first = await historyRepository.findOne({
+        where: { tokenId },
+        order: { recordedAt: 'ASC' },
+      });
+      if (!first) {
+        console.log(`No price history for token ${tokenId}, skipping`);
+        continue;
+      }
+
+      const from = args.from ?? first.recordedAt;
+      const to = args.to ?? new Date();
+      const count = await candleAggregator.rebuild(tokenId, from, to);
+      console.log(`Rebuilt ${count} candle(s) for token ${tokenId}`);
+    }
+
+    // Close the connection
+    await AppDataSource.destroy();
+    console.log('Data source has been closed');
+  } catch (error) {
+    console.error('Error during candle rebuild:', error);
+    process.exit(1);
+  }
+}
+
+// Run the rebuild
+rebuildCandles()
+  .then(() => {
+    console.log('Candle rebuild completed successfully');
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Failed to rebuild candles:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,97 @@
+import { writeFileSync } from 'fs';
+import { AppDataSource } from './data-source';
+import { Token } from '../models/token.entity';
+import { PriceReplayService, ReplayOptions, ReplayReport } from '../kafka/price-replay.service';
+
+// Usage: npm run prices:replay -- [--from-offset <n> | --from-timestamp <ISO date>]
+//                                 [--dry-run] [--report <file.json>] [--timeout <seconds>]
+function parseArgs(argv: string[]): ReplayOptions & { reportPath?: string } {
+  const args: ReplayOptions & { reportPath?: string } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--from-offset') {
+      args.fromOffset = parseInt(argv[++i], 10);
+    } else if (argv[i] === '--from-timestamp') {
+      args.fromTimestamp = new Date(argv[++i]);
+    } else if (argv[i] === '--dry-run') {
+      args.dryRun = true;
+    } else if (argv[i] === '--report') {
+      args.reportPath = argv[++i];
+    } else if (argv[i] === '--timeout') {
+      args.timeoutSeconds = Number(argv[++i]);
+    } else {
+      throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (args.fromOffset !== undefined && isNaN(args.fromOffset)) {
+    throw new Error('--from-offset must be a number');
+  }
+  if (args.fromTimestamp && isNaN(args.fromTimestamp.getTime())) {
+    throw new Error('--from-timestamp must be an ISO date');
+  }
+  if (
+    args.timeoutSeconds !== undefined &&
+    !(Number.isFinite(args.timeoutSeconds) && args.timeoutSeconds > 0)
+  ) {
+    throw new Error('--timeout must be a positive number of seconds');
+  }
+
+  return args;
+}
+
+function printReport(report: ReplayReport): void {
+  console.log(
+    `Read ${report.messagesRead} message(s) from ${report.topic} ` +
+      `(${report.invalidMessages} invalid)`,
+  );
+  for (const change of report.updated) {
+    console.log(
+      `${report.dryRun ? 'Would update' : 'Updated'} ${change.symbol ?? change.tokenId}: ` +
+        `${change.oldPrice} @ ${change.oldTimestamp.toISOString()} -> ` +
+        `${change.newPrice} @ ${change.newTimestamp.toISOString()}`,
+    );
+  }
+  console.log(
+    `${report.updated.length} token(s) ${report.dryRun ? 'to update' : 'updated'}, ` +
+      `${report.upToDate.length} already up to date, ` +
+      `${report.unknownTokens.length} unknown token(s)`,
+  );
+}
+
+async function replayPrices() {
+  try {
+    const { reportPath, ...options } = parseArgs(process.argv.slice(2));
+
+    // Initialize the data source
+    await AppDataSource.initialize();
+    console.log('Data source has been initialized');
+
+    const priceReplay = new PriceReplayService(AppDataSource.getRepository(Token));
+    const report = await priceReplay.replay(options);
+
+    printReport(report);
+    if (reportPath) {
+      writeFileSync(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+      console.log(`Report written to ${reportPath}`);
+    }
+
+    // Close the connection
+    await AppDataSource.destroy();
+    console.log('Data source has been closed');
+  } catch (error) {
+    console.error('Error during price replay:', error);
+    process.exit(1);
+  }
+}
+
+// Run the replay
+replayPrices()
+  .then(() => {
+    console.log('Price replay completed successfully');
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Failed to replay prices:', error);
+    process.exit(1);
+  });
@@ -5,6 +5,7 @@ import { randomUUID } from 'crypto';
 import { Token } from '../models/token.entity';
 import { Chain } from '../models/chain.entity';
 import { Logo } from '../models/logo.entity';
+import { toPrice } from '../common/price-decimal';
 
 @Injectable()
 export class TokenSeeder {
@@ -20,8 +21,9 @@ export class TokenSeeder {
   ) {}
 
   async seed(): Promise<void> {
-    // Check if there are already tokens in the database
-    const count = await this.tokenRepository.count();
+    // Check if there are already tokens in the database; deleted ones count,
+    // the seeded ids may still be taken
+    const count = await this.tokenRepository.count({ withDeleted: true });
     if (count > 0) {
       this.logger.log('Database already seeded, skipping...');
       return;
@@ -97,7 +99,7 @@ export class TokenSeeder {
           lastUpdateAuthor: 'Seeder',
           priority: 1,
           timestamp: new Date(),
-          price: 300000,
+          price: toPrice(300000),
           lastPriceUpdate: new Date(),
         },
         {
@@ -112,7 +114,7 @@ export class TokenSeeder {
           lastUpdateAuthor: 'Seeder',
           priority: 2,
           timestamp: new Date(),
-          price: 4500000,
+          price: toPrice(4500000),
           lastPriceUpdate: new Date(),
         },
         {
@@ -127,7 +129,7 @@ export class TokenSeeder {
           lastUpdateAuthor: 'Seeder',
           priority: 3,
           timestamp: new Date(),
-          price: 15000,
+          price: toPrice(15000),
           lastPriceUpdate: new Date(),
         },
       ];
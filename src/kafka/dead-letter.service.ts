@@ -0,0 +1,328 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IHeaders, Kafka } from 'kafkajs';
+import { EntityManager, FindOptionsWhere, In, Repository } from 'typeorm';
+import { DeadLetterMessage, DeadLetterStatus } from '../models/dead-letter-message.entity';
+import { OutboxMessage } from '../models/outbox-message.entity';
+import { DeadLetterListQuery } from '../models/dead-letter.schema';
+import { withTimeout } from '../common/concurrency';
+import { createKafkaClient } from './kafka-client';
+import { KafkaProducerService } from './kafka-producer.service';
+import { OutboxService } from './outbox.service';
+
+export type DeadLetterStore = 'table' | 'kafka';
+
+// How long reading the DLQ topic may take
+const DLQ_READ_TIMEOUT_MS = 30000;
+
+// Takes outbox messages that failed permanently out of the relay, either into
+// the dead_letter_messages table or onto a Kafka DLQ topic. With the Kafka
+// store the pending messages are read from the topic, and the table only
+// keeps the ones that were replayed or discarded.
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+  private readonly kafka: Kafka;
+  readonly store: DeadLetterStore;
+  readonly dlqTopic: string;
+
+  constructor(
+    @InjectRepository(DeadLetterMessage)
+    private readonly deadLetterRepository: Repository<DeadLetterMessage>,
+    private readonly kafkaProducer: KafkaProducerService,
+    private readonly outboxService: OutboxService,
+  ) {
+    this.store = process.env.DEAD_LETTER_STORE === 'kafka' ? 'kafka' : 'table';
+    this.dlqTopic = process.env.KAFKA_DLQ_TOPIC || 'token-price-service.dlq';
+    this.kafka = createKafkaClient('dead-letters');
+  }
+
+  // Moves an outbox message to the dead-letter store; callers pass the
+  // manager of the relay transaction holding the outbox row lock
+  async record(
+    manager: EntityManager,
+    message: OutboxMessage,
+    error: string,
+    attempts: number,
+  ): Promise<void> {
+    const failedAt = new Date();
+
+    if (this.store === 'kafka') {
+      // Throws if Kafka is still down, leaving the message in the outbox
+      await this.kafkaProducer.send(this.dlqTopic, message.key, message.payload, {
+        'x-dead-letter-id': message.id,
+        'x-original-topic': message.topic,
+        'x-error': error,
+        'x-attempts': String(attempts),
+        'x-failed-at': failedAt.toISOString(),
+      });
+    } else {
+      await manager.insert(DeadLetterMessage, {
+        topic: message.topic,
+        key: message.key,
+        payload: message.payload,
+        error,
+        attempts,
+        failedAt,
+      });
+    }
+
+    await manager.delete(OutboxMessage, message.id);
+    this.logger.error(
+      `Moved message ${message.id} for ${message.topic} to dead-letter ${this.store} ` +
+        `after ${attempts} attempt(s): ${error}`,
+    );
+  }
+
+  async list(
+    query: DeadLetterListQuery,
+  ): Promise<{ messages: DeadLetterMessage[]; total: number }> {
+    if (this.store === 'kafka' && query.status === 'pending') {
+      const pending = (await this.readPending()).filter(
+        message => query.topic === undefined || message.topic === query.topic,
+      );
+      const start = (query.page - 1) * query.limit;
+      return { messages: pending.slice(start, start + query.limit), total: pending.length };
+    }
+
+    const where: FindOptionsWhere<DeadLetterMessage> = { status: query.status };
+    if (query.topic !== undefined) {
+      where.topic = query.topic;
+    }
+
+    const [messages, total] = await this.deadLetterRepository.findAndCount({
+      where,
+      order: { failedAt: 'ASC' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    });
+
+    return { messages, total };
+  }
+
+  async findById(id: string): Promise<DeadLetterMessage | null> {
+    const message = await this.deadLetterRepository.findOne({ where: { id } });
+    if (message || this.store !== 'kafka') {
+      return message;
+    }
+    return (await this.readPending()).find(pending => pending.id === id) ?? null;
+  }
+
+  // Puts pending dead letters back into the outbox; returns how many were replayed
+  async replay(ids: string[]): Promise<number> {
+    return this.resolve(ids, 'replayed', async (manager, message) => {
+      await this.outboxService.enqueue(manager, message.topic, message.key, message.payload);
+    });
+  }
+
+  async replayAll(topic?: string): Promise<number> {
+    if (this.store === 'kafka') {
+      const pending = await this.readPending();
+      return this.replay(
+        pending
+          .filter(message => topic === undefined || message.topic === topic)
+          .map(message => message.id),
+      );
+    }
+
+    const pending = await this.deadLetterRepository.find({
+      select: { id: true },
+      where: topic !== undefined ? { status: 'pending', topic } : { status: 'pending' },
+    });
+    return this.replay(pending.map(message => message.id));
+  }
+
+  async discard(ids: string[]): Promise<number> {
+    return this.resolve(ids, 'discarded');
+  }
+
+  private async resolve(
+    ids: string[],
+    status: DeadLetterStatus,
+    action?: (manager: EntityManager, message: DeadLetterMessage) => Promise<void>,
+  ): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    if (this.store === 'kafka') {
+      return this.resolveFromTopic(ids, status, action);
+    }
+
+    const resolved = await this.deadLetterRepository.manager.transaction(async manager => {
+      // Lock the rows so a message cannot be replayed twice
+      const messages = await manager
+        .getRepository(DeadLetterMessage)
+        .createQueryBuilder('deadLetter')
+        .where({ id: In(ids), status: 'pending' })
+        .orderBy('deadLetter.failedAt', 'ASC')
+        .setLock('pessimistic_write')
+        .getMany();
+
+      for (const message of messages) {
+        if (action) {
+          await action(manager, message);
+        }
+        await manager.update(DeadLetterMessage, message.id, { status, resolvedAt: new Date() });
+      }
+
+      return messages.length;
+    });
+
+    this.logger.log(`Marked ${resolved} dead-letter message(s) as ${status}`);
+    return resolved;
+  }
+
+  // Messages cannot be removed from the DLQ topic, so resolving one stores it
+  // in the table with its status, and it is no longer listed as pending
+  private async resolveFromTopic(
+    ids: string[],
+    status: DeadLetterStatus,
+    action?: (manager: EntityManager, message: DeadLetterMessage) => Promise<void>,
+  ): Promise<number> {
+    const wanted = new Set(ids);
+    const messages = (await this.readPending()).filter(message => wanted.has(message.id));
+
+    const resolved = await this.deadLetterRepository.manager.transaction(async manager => {
+      let count = 0;
+      for (const message of messages) {
+        // A message resolved meanwhile already has a row, so it cannot be
+        // replayed twice
+        const { raw } = await manager
+          .createQueryBuilder()
+          .insert()
+          .into(DeadLetterMessage)
+          .values({ ...message, status, resolvedAt: new Date() })
+          .orIgnore()
+          .returning('id')
+          .execute();
+        if ((raw as unknown[]).length === 0) {
+          continue;
+        }
+
+        if (action) {
+          await action(manager, message);
+        }
+        count++;
+      }
+      return count;
+    });
+
+    this.logger.log(`Marked ${resolved} dead-letter message(s) from ${this.dlqTopic} as ${status}`);
+    return resolved;
+  }
+
+  // Dead letters on the DLQ topic that were neither replayed nor discarded,
+  // oldest first
+  private async readPending(): Promise<DeadLetterMessage[]> {
+    const messages = await this.readTopic();
+    if (messages.length === 0) {
+      return messages;
+    }
+
+    const resolved = await this.deadLetterRepository.find({
+      select: { id: true },
+      where: { id: In(messages.map(message => message.id)) },
+    });
+    const resolvedIds = new Set(resolved.map(message => message.id));
+
+    return messages
+      .filter(message => !resolvedIds.has(message.id))
+      .sort((a, b) => a.failedAt.getTime() - b.failedAt.getTime());
+  }
+
+  // Reads the DLQ topic up to the end offsets it had when the read began
+  private async readTopic(): Promise<DeadLetterMessage[]> {
+    const messages: DeadLetterMessage[] = [];
+
+    const admin = this.kafka.admin();
+    await admin.connect();
+    let offsets: Array<{ partition: number; start: number; end: number }>;
+    try {
+      if (!(await admin.listTopics()).includes(this.dlqTopic)) {
+        return messages;
+      }
+      offsets = (await admin.fetchTopicOffsets(this.dlqTopic))
+        .map(({ partition, low, high }) => ({
+          partition,
+          start: parseInt(low, 10),
+          end: parseInt(high, 10),
+        }))
+        .filter(({ start, end }) => start < end);
+    } finally {
+      await admin.disconnect();
+    }
+    if (offsets.length === 0) {
+      return messages;
+    }
+
+    const pending = new Map(offsets.map(({ partition, end }) => [partition, end]));
+
+    // A throwaway group that never commits, like the price replay
+    const consumer = this.kafka.consumer({ groupId: `token-price-dead-letters-${Date.now()}` });
+    await consumer.connect();
+
+    try {
+      await consumer.subscribe({ topic: this.dlqTopic, fromBeginning: true });
+
+      let finish!: () => void;
+      let fail!: (error: Error) => void;
+      const done = new Promise<void>((resolve, reject) => {
+        finish = resolve;
+        fail = reject;
+      });
+      consumer.on(consumer.events.CRASH, ({ payload }) => fail(payload.error));
+
+      await consumer.run({
+        autoCommit: false,
+        eachMessage: async ({ partition, message }) => {
+          const end = pending.get(partition);
+          const offset = parseInt(message.offset, 10);
+          if (end === undefined || offset >= end) {
+            return;
+          }
+
+          const id = this.header(message.headers, 'x-dead-letter-id');
+          const topic = this.header(message.headers, 'x-original-topic');
+          // Skip messages that were not written by record()
+          if (id && topic && message.value) {
+            const failedAt = this.header(message.headers, 'x-failed-at');
+            messages.push(
+              this.deadLetterRepository.create({
+                id,
+                topic,
+                key: message.key?.toString() ?? '',
+                payload: message.value.toString(),
+                error: this.header(message.headers, 'x-error') ?? '',
+                attempts: parseInt(this.header(message.headers, 'x-attempts') ?? '0', 10),
+                failedAt: failedAt ? new Date(failedAt) : new Date(Number(message.timestamp)),
+                status: 'pending',
+                resolvedAt: null,
+              }),
+            );
+          }
+
+          if (offset >= end - 1) {
+            pending.delete(partition);
+            if (pending.size === 0) {
+              finish();
+            }
+          }
+        },
+      });
+
+      for (const { partition, start } of offsets) {
+        consumer.seek({ topic: this.dlqTopic, partition, offset: String(start) });
+      }
+      await withTimeout(done, DLQ_READ_TIMEOUT_MS, `Reading ${this.dlqTopic}`);
+    } finally {
+      await consumer.disconnect();
+    }
+
+    return messages;
+  }
+
+  private header(headers: IHeaders | undefined, name: string): string | undefined {
+    const value = headers?.[name];
+    return (Array.isArray(value) ? value[0] : value)?.toString();
+  }
+}
@@ -0,0 +1,28 @@
+import { CompressionCodecs, CompressionTypes, Kafka } from 'kafkajs';
+import { compress, decompress } from 'lz4js';
+
+// KafkaJS only ships GZIP. LZ4 frames are handled in plain JavaScript, so
+// installing the service needs no native build.
+const lz4Codec = () => ({
+  async compress(encoder: { buffer: Buffer }): Promise<Buffer> {
+    return Buffer.from(compress(encoder.buffer));
+  },
+  async decompress(buffer: Buffer): Promise<Buffer> {
+    return Buffer.from(decompress(buffer));
+  },
+});
+
+// Creates a client for KAFKA_BROKERS, identified as KAFKA_CLIENT_ID plus the
+// optional suffix. The LZ4 codec is registered with the client rather than on
+// import; consumers need it for LZ4 batches whatever compression this service
+// produces with.
+export function createKafkaClient(clientIdSuffix?: string): Kafka {
+  CompressionCodecs[CompressionTypes.LZ4] = lz4Codec;
+
+  const brokers = (process.env.KAFKA_BROKERS || 'localhost:9092').split(',');
+  const clientId = process.env.KAFKA_CLIENT_ID || 'token-price-service';
+  return new Kafka({
+    clientId: clientIdSuffix ? `${clientId}-${clientIdSuffix}` : clientId,
+    brokers,
+  });
+}
@@ -0,0 +1,112 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Consumer } from 'kafkajs';
+import { ZodError } from 'zod';
+import { parsePriceQuoteMessage } from '../models/price-quote-message';
+import { TokenPriceUpdateService } from '../services/token-price-update.service';
+import { createKafkaClient } from './kafka-client';
+import { isTransientError } from '../common/transient-error';
+
+const PRICE_FEEDS = ['poll', 'kafka'];
+
+// Consumes price quotes from an external feed and applies them to tokens. Used
+// instead of the timer-driven polling when PRICE_FEED=kafka.
+@Injectable()
+export class KafkaConsumerService implements OnModuleDestroy {
+  private readonly logger = new Logger(KafkaConsumerService.name);
+  private readonly consumer: Consumer;
+  private readonly topic: string;
+  private isConnected = false;
+  readonly isEnabled: boolean;
+
+  constructor(private readonly tokenPriceUpdateService: TokenPriceUpdateService) {
+    const groupId = process.env.KAFKA_CONSUMER_GROUP_ID || 'token-price-service';
+    this.topic = process.env.KAFKA_QUOTE_TOPIC || 'price-quotes';
+
+    const priceFeed = process.env.PRICE_FEED || 'poll';
+    if (!PRICE_FEEDS.includes(priceFeed)) {
+      throw new Error(
+        `Unknown price feed "${priceFeed}", expected one of: ${PRICE_FEEDS.join(', ')}`,
+      );
+    }
+    this.isEnabled = priceFeed === 'kafka';
+
+    this.consumer = createKafkaClient().consumer({ groupId });
+  }
+
+  async start(): Promise<void> {
+    try {
+      await this.consumer.connect();
+      this.isConnected = true;
+      await this.consumer.subscribe({ topic: this.topic });
+      this.logger.log(`Consuming price quotes from Kafka topic ${this.topic}`);
+    } catch (error) {
+      this.logger.error('Failed to connect Kafka consumer', (error as Error).stack);
+      throw error;
+    }
+
+    // Errors thrown by the handler make KafkaJS retry the message, so
+    // handleQuote only rethrows transient failures (e.g. the database being
+    // down) and skips quotes that would fail on every retry
+    await this.consumer.run({
+      eachMessage: async ({ message, partition }) => {
+        if (!message.value) {
+          return;
+        }
+        await this.handleQuote(message.value.toString(), `${partition}:${message.offset}`);
+      },
+    });
+  }
+
+  private async handleQuote(value: string, position: string): Promise<void> {
+    let quote;
+    try {
+      quote = parsePriceQuoteMessage(value);
+    } catch (error) {
+      // A malformed quote will never become valid, skip it
+      const reason =
+        error instanceof ZodError
+          ? error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+          : (error as Error).message;
+      this.logger.warn(`Skipping invalid quote at ${this.topic} ${position}: ${reason}`);
+      return;
+    }
+
+    try {
+      await this.tokenPriceUpdateService.applyQuote(quote);
+    } catch (error) {
+      if (isTransientError(error)) {
+        throw error;
+      }
+      // E.g. a price that does not fit the price columns; retrying would stall
+      // the partition
+      this.logger.error(
+        `Skipping quote at ${this.topic} ${position} that cannot be applied: ` +
+          (error as Error).message,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (!this.isConnected) {
+      return;
+    }
+
+    this.logger.log('Disconnecting Kafka consumer...');
+
+    try {
+      // Gracefully disconnect with timeout
+      await Promise.race([
+        this.consumer.disconnect(),
+        new Promise((_, reject) =>
+          setTimeout(() => reject(new Error('Kafka disconnect timeout')), 10000),
+        ),
+      ]);
+      this.logger.log('Disconnected Kafka consumer');
+    } catch (error) {
+      this.logger.error('Error disconnecting Kafka consumer', (error as Error).stack);
+    } finally {
+      this.isConnected = false;
+    }
+  }
+}
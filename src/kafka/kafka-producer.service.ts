@@ -1,30 +1,67 @@
 import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
-import { Kafka, Producer } from 'kafkajs';
-import {
-  TokenPriceUpdateMessage,
-  tokenPriceUpdateMessageSchema,
-} from '../models/token-price-update-message';
+import { CompressionTypes, IHeaders, Producer, TopicMessages } from 'kafkajs';
+import { createKafkaClient } from './kafka-client';
+import { CircuitBreaker, CircuitOpenError } from '../common/circuit-breaker';
+import { CircuitBreakerRegistry } from '../common/circuit-breaker.registry';
+import { MetricsService } from '../services/metrics.service';
+
+// Name of the circuit breaker guarding every call to the Kafka brokers
+export const KAFKA_CIRCUIT = 'kafka';
+
+export interface OutboundMessage {
+  topic: string;
+  key: string;
+  value: string;
+  headers?: IHeaders;
+}
+
+export interface BatchSendResult {
+  message: OutboundMessage;
+  // "skipped" messages were not attempted, either because an earlier message
+  // with the same key failed, so sending them would break per-key ordering, or
+  // because the Kafka circuit is open
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+}
+
+const COMPRESSION_TYPES: Record<string, CompressionTypes> = {
+  none: CompressionTypes.None,
+  gzip: CompressionTypes.GZIP,
+  lz4: CompressionTypes.LZ4,
+};
 
 @Injectable()
 export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(KafkaProducerService.name);
   private readonly producer: Producer;
-  private readonly topic: string;
-  private isConnected = false;
+  private connected = false;
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // 1 second
+  private readonly batchMaxSize: number;
+  private readonly compression: CompressionTypes;
+  private readonly acks: number;
+  private readonly breaker: CircuitBreaker;
+
+  constructor(circuitBreakers: CircuitBreakerRegistry, private readonly metrics: MetricsService) {
+    this.breaker = circuitBreakers.get(KAFKA_CIRCUIT);
+    this.batchMaxSize = parseInt(process.env.KAFKA_BATCH_MAX_SIZE || '500', 10);
+    this.acks = parseInt(process.env.KAFKA_ACKS || '-1', 10);
+
+    const compression = process.env.KAFKA_COMPRESSION || 'none';
+    if (!(compression in COMPRESSION_TYPES)) {
+      throw new Error(
+        `Unknown Kafka compression "${compression}", expected one of: ${Object.keys(
+          COMPRESSION_TYPES,
+        ).join(', ')}`,
+      );
+    }
+    this.compression = COMPRESSION_TYPES[compression];
 
-  constructor() {
-    const brokers = (process.env.KAFKA_BROKERS || 'localhost:9092').split(',');
-    const clientId = process.env.KAFKA_CLIENT_ID || 'token-price-service';
-    this.topic = process.env.KAFKA_TOPIC || 'token-price-updates';
-
-    const kafka = new Kafka({
-      clientId,
-      brokers,
-    });
+    this.producer = createKafkaClient().producer();
+  }
 
-    this.producer = kafka.producer();
+  get isConnected(): boolean {
+    return this.connected;
   }
 
   async onModuleInit(): Promise<void> {
@@ -34,7 +71,7 @@ export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
   private async connect(): Promise<void> {
     try {
       await this.producer.connect();
-      this.isConnected = true;
+      this.connected = true;
       this.logger.log('Connected to Kafka');
     } catch (error) {
       this.logger.error('Failed to connect to Kafka', (error as Error).stack);
@@ -42,32 +79,108 @@ export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async sendPriceUpdateMessage(message: TokenPriceUpdateMessage): Promise<void> {
-    if (!this.isConnected) {
+  async send(topic: string, key: string, value: string, headers?: IHeaders): Promise<void> {
+    if (!this.connected) {
       throw new Error('Kafka producer is not connected');
     }
 
-    // Validate the message with Zod schema
-    tokenPriceUpdateMessageSchema.parse(message);
+    await this.breaker.execute(() =>
+      this.sendWithRetry('send', () =>
+        this.producer.send({
+          topic,
+          messages: [{ key, value, headers }],
+          acks: this.acks,
+          compression: this.compression,
+        }),
+      ),
+    );
+    this.logger.debug(`Sent message to Kafka topic ${topic}: ${value}`);
+  }
 
-    const value = JSON.stringify(message);
+  // Sends messages in chunks of at most KAFKA_BATCH_MAX_SIZE, one sendBatch
+  // request per chunk, and reports the outcome of every message in input order
+  async sendBatch(messages: OutboundMessage[]): Promise<BatchSendResult[]> {
+    if (!this.connected) {
+      throw new Error('Kafka producer is not connected');
+    }
 
-    await this.sendWithRetry(message.tokenId, value);
-    this.logger.log(`Sent message to Kafka: ${value}`);
+    const results: BatchSendResult[] = new Array(messages.length);
+    const failedKeys = new Set<string>();
+
+    for (let start = 0; start < messages.length; start += this.batchMaxSize) {
+      const chunk: number[] = [];
+      for (
+        let index = start;
+        index < Math.min(start + this.batchMaxSize, messages.length);
+        index++
+      ) {
+        if (failedKeys.has(messages[index].key)) {
+          results[index] = { message: messages[index], status: 'skipped' };
+        } else {
+          chunk.push(index);
+        }
+      }
+      if (chunk.length === 0) {
+        continue;
+      }
+
+      try {
+        await this.breaker.execute(() =>
+          this.sendWithRetry('sendBatch', () =>
+            this.producer.sendBatch({
+              topicMessages: this.groupByTopic(chunk.map(index => messages[index])),
+              acks: this.acks,
+              compression: this.compression,
+            }),
+          ),
+        );
+        chunk.forEach(index => {
+          results[index] = { message: messages[index], status: 'sent' };
+        });
+      } catch (error) {
+        const errorMessage = (error as Error).message;
+        const status = error instanceof CircuitOpenError ? 'skipped' : 'failed';
+        chunk.forEach(index => {
+          failedKeys.add(messages[index].key);
+          results[index] = { message: messages[index], status, error: errorMessage };
+        });
+      }
+    }
+
+    const sent = results.filter(result => result.status === 'sent').length;
+    this.logger.debug(`Sent batch of ${sent}/${messages.length} message(s) to Kafka`);
+    return results;
+  }
+
+  // False while the producer is disconnected or the Kafka circuit is open
+  isAvailable(): boolean {
+    return this.connected && this.breaker.canExecute();
+  }
+
+  private groupByTopic(messages: OutboundMessage[]): TopicMessages[] {
+    const byTopic = new Map<string, TopicMessages>();
+    for (const { topic, key, value, headers } of messages) {
+      let topicMessages = byTopic.get(topic);
+      if (!topicMessages) {
+        topicMessages = { topic, messages: [] };
+        byTopic.set(topic, topicMessages);
+      }
+      topicMessages.messages.push({ key, value, headers });
+    }
+    return [...byTopic.values()];
   }
 
-  private async sendWithRetry(key: string, value: string, attempt = 1): Promise<void> {
+  private async sendWithRetry(
+    name: 'send' | 'sendBatch',
+    operation: () => Promise<unknown>,
+    attempt = 1,
+  ): Promise<void> {
+    const endTimer = this.metrics.kafkaSendLatency.startTimer({ operation: name });
     try {
-      await this.producer.send({
-        topic: this.topic,
-        messages: [
-          {
-            key,
-            value,
-          },
-        ],
-      });
+      await operation();
+      endTimer({ outcome: 'success' });
     } catch (error) {
+      endTimer({ outcome: 'error' });
       const errorMessage = (error as Error).message;
       this.logger.error(
         `Error sending message (attempt ${attempt}/${this.maxRetries}): ${errorMessage}`,
@@ -77,7 +190,8 @@ export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
         const delay = this.retryDelay * Math.pow(2, attempt - 1); // Exponential backoff
         this.logger.log(`Retrying in ${delay}ms...`);
         await new Promise(resolve => setTimeout(resolve, delay));
-        return this.sendWithRetry(key, value, attempt + 1);
+        this.metrics.kafkaSendRetries.inc({ operation: name });
+        return this.sendWithRetry(name, operation, attempt + 1);
       }
 
       // Max retries reached, throw error
@@ -86,7 +200,7 @@ export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
   }
 
   async onModuleDestroy(): Promise<void> {
-    if (!this.isConnected) {
+    if (!this.connected) {
       this.logger.log('Kafka producer was not connected, skipping disconnect');
       return;
     }
@@ -102,12 +216,12 @@ export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
         ),
       ]);
 
-      this.isConnected = false;
+      this.connected = false;
       this.logger.log('Disconnected from Kafka');
     } catch (error) {
       this.logger.error('Error disconnecting from Kafka', (error as Error).stack);
       // Force disconnect anyway
-      this.isConnected = false;
+      this.connected = false;
     }
   }
 }
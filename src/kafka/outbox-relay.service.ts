@@ -0,0 +1,285 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, LessThan, Repository } from 'typeorm';
+import { OutboxMessage } from '../models/outbox-message.entity';
+import { BatchSendResult, KafkaProducerService, OutboundMessage } from './kafka-producer.service';
+import { DeadLetterService } from './dead-letter.service';
+
+export interface RelayFailure {
+  topic: string;
+  key: string;
+  error: string;
+}
+
+export interface RelayResult {
+  sent: number;
+  failed: number;
+  deadLettered: number;
+  failures: RelayFailure[];
+}
+
+// Publishes pending outbox rows to Kafka and marks them sent. Failed rows stay
+// pending and are retried with exponential backoff, giving at-least-once
+// delivery of everything committed to Postgres. Messages with the same topic
+// and key are published in the order they were enqueued. Rows that still fail after
+// OUTBOX_MAX_ATTEMPTS are handed to the dead-letter store.
+@Injectable()
+export class OutboxRelayService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelayService.name);
+  private timer?: NodeJS.Timeout;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly retentionMs: number;
+  private readonly maxAttempts: number;
+  private lastPurge = 0;
+  private relayPromise?: Promise<RelayResult>;
+
+  constructor(
+    @InjectRepository(OutboxMessage)
+    private readonly outboxRepository: Repository<OutboxMessage>,
+    private readonly kafkaProducer: KafkaProducerService,
+    private readonly deadLetterService: DeadLetterService,
+  ) {
+    this.pollIntervalMs = parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10);
+    this.batchSize = parseInt(process.env.OUTBOX_BATCH_SIZE || '100', 10);
+    this.retryDelayMs = parseInt(process.env.OUTBOX_RETRY_DELAY_MS || '1000', 10);
+    this.maxRetryDelayMs = parseInt(process.env.OUTBOX_MAX_RETRY_DELAY_MS || '60000', 10);
+    this.retentionMs = parseFloat(process.env.OUTBOX_RETENTION_HOURS || '24') * 60 * 60 * 1000;
+    this.maxAttempts = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10);
+  }
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => {
+      this.relayPending().catch((error: Error) => {
+        this.logger.error(`Error relaying outbox: ${error.message}`, error.stack);
+      });
+    }, this.pollIntervalMs);
+  }
+
+  // Relays one batch of due messages; concurrent callers share the same run
+  relayPending(): Promise<RelayResult> {
+    if (!this.relayPromise) {
+      this.relayPromise = this.relayBatch().finally(() => {
+        this.relayPromise = undefined;
+      });
+    }
+    return this.relayPromise;
+  }
+
+  private async relayBatch(): Promise<RelayResult> {
+    const result: RelayResult = { sent: 0, failed: 0, deadLettered: 0, failures: [] };
+
+    // Leave the messages in the outbox, without counting attempts, until
+    // Kafka is reachable again
+    if (!this.kafkaProducer.isAvailable()) {
+      return result;
+    }
+
+    await this.outboxRepository.manager.transaction(async manager => {
+      const now = new Date();
+
+      // Lock the batch so that other relays skip it rather than resend it.
+      // A message waiting behind an earlier one with the same key that is
+      // backing off is left until that one is sent, keeping per-key order.
+      const locked = await manager
+        .getRepository(OutboxMessage)
+        .createQueryBuilder('outbox')
+        .where('outbox.status = :status', { status: 'pending' })
+        .andWhere('outbox.nextAttemptAt <= :now', { now })
+        .andWhere(
+          `NOT EXISTS (
+            SELECT 1 FROM "outbox" "earlier"
+            WHERE "earlier"."topic" = "outbox"."topic"
+              AND "earlier"."key" = "outbox"."key"
+              AND "earlier"."status" = :status
+              AND "earlier"."sequence" < "outbox"."sequence"
+              AND "earlier"."nextAttemptAt" > :now
+          )`,
+        )
+        .orderBy('outbox.sequence', 'ASC')
+        .limit(this.batchSize)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      const messages = await this.withoutBlockedKeys(manager, locked);
+      if (messages.length === 0) {
+        return;
+      }
+
+      const results = await this.publish(messages);
+
+      const sentIds: string[] = [];
+      for (const [index, { status, error }] of results.entries()) {
+        const message = messages[index];
+
+        if (status === 'sent') {
+          sentIds.push(message.id);
+          continue;
+        }
+        if (status === 'skipped') {
+          // Not attempted, stays pending for the next run
+          continue;
+        }
+
+        const attempts = message.attempts + 1;
+        const errorMessage = error || 'Unknown error';
+        result.failures.push({ topic: message.topic, key: message.key, error: errorMessage });
+
+        if (
+          attempts >= this.maxAttempts &&
+          (await this.deadLetter(manager, message, errorMessage, attempts))
+        ) {
+          result.deadLettered++;
+          continue;
+        }
+
+        await manager.update(OutboxMessage, message.id, {
+          attempts,
+          lastError: errorMessage,
+          nextAttemptAt: new Date(Date.now() + this.getRetryDelay(attempts)),
+        });
+        result.failed++;
+      }
+
+      if (sentIds.length > 0) {
+        await manager
+          .createQueryBuilder()
+          .update(OutboxMessage)
+          .set({
+            status: 'sent',
+            attempts: () => '"attempts" + 1',
+            sentAt: new Date(),
+            lastError: null,
+          })
+          .whereInIds(sentIds)
+          .execute();
+        result.sent = sentIds.length;
+      }
+    });
+
+    if (result.failed > 0 || result.deadLettered > 0) {
+      this.logger.warn(
+        `Outbox relay: ${result.sent} sent, ${result.failed} failed, ` +
+          `${result.deadLettered} dead-lettered`,
+      );
+    }
+
+    await this.purgeSent();
+    return result;
+  }
+
+  // Drops the messages that have an earlier pending message with the same key
+  // outside the batch, such as one locked by another relay
+  private async withoutBlockedKeys(
+    manager: EntityManager,
+    messages: OutboxMessage[],
+  ): Promise<OutboxMessage[]> {
+    if (messages.length === 0) {
+      return messages;
+    }
+
+    const earlier = await manager
+      .getRepository(OutboxMessage)
+      .createQueryBuilder('outbox')
+      .select(['outbox.id', 'outbox.topic', 'outbox.key', 'outbox.sequence'])
+      .where('outbox.status = :status', { status: 'pending' })
+      .andWhere('outbox.sequence < :last', { last: messages[messages.length - 1].sequence })
+      .andWhere('outbox.id NOT IN (:...ids)', { ids: messages.map(message => message.id) })
+      .andWhere('outbox.key IN (:...keys)', {
+        keys: [...new Set(messages.map(message => message.key))],
+      })
+      .orderBy('outbox.sequence', 'ASC')
+      .getMany();
+
+    // Lowest pending sequence outside the batch for each topic and key
+    const blockedFrom = new Map<string, bigint>();
+    for (const message of earlier) {
+      const topicKey = `${message.topic}:${message.key}`;
+      if (!blockedFrom.has(topicKey)) {
+        blockedFrom.set(topicKey, BigInt(message.sequence));
+      }
+    }
+
+    return messages.filter(message => {
+      const from = blockedFrom.get(`${message.topic}:${message.key}`);
+      return from === undefined || BigInt(message.sequence) < from;
+    });
+  }
+
+  // Publishes the batch in as few Kafka requests as possible; a producer that
+  // cannot send at all fails every message
+  private async publish(messages: OutboxMessage[]): Promise<BatchSendResult[]> {
+    const outbound: OutboundMessage[] = messages.map(message => ({
+      topic: message.topic,
+      key: message.key,
+      value: message.payload,
+    }));
+
+    try {
+      return await this.kafkaProducer.sendBatch(outbound);
+    } catch (error) {
+      return outbound.map(message => ({
+        message,
+        status: 'failed',
+        error: (error as Error).message,
+      }));
+    }
+  }
+
+  // Returns false if the dead-letter store is unavailable too, in which case
+  // the message stays in the outbox and is retried. The record runs in a
+  // savepoint so that a failed insert does not abort the batch transaction.
+  private async deadLetter(
+    manager: EntityManager,
+    message: OutboxMessage,
+    error: string,
+    attempts: number,
+  ): Promise<boolean> {
+    try {
+      await manager.transaction(savepoint =>
+        this.deadLetterService.record(savepoint, message, error, attempts),
+      );
+      return true;
+    } catch (deadLetterError) {
+      this.logger.error(
+        `Failed to dead-letter message ${message.id}: ${(deadLetterError as Error).message}`,
+      );
+      return false;
+    }
+  }
+
+  private getRetryDelay(attempts: number): number {
+    return Math.min(this.retryDelayMs * Math.pow(2, attempts - 1), this.maxRetryDelayMs);
+  }
+
+  // Sent messages are kept for a while for troubleshooting, then removed
+  private async purgeSent(): Promise<void> {
+    if (Date.now() - this.lastPurge < 60000) {
+      return;
+    }
+    this.lastPurge = Date.now();
+
+    const { affected } = await this.outboxRepository.delete({
+      status: 'sent',
+      sentAt: LessThan(new Date(Date.now() - this.retentionMs)),
+    });
+    if (affected) {
+      this.logger.log(`Purged ${affected} sent outbox message(s)`);
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    // Let an in-flight batch finish so its rows are not left half-updated
+    if (this.relayPromise) {
+      await this.relayPromise.catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { OutboxMessage } from '../models/outbox-message.entity';
+import {
+  TokenPriceUpdateMessage,
+  tokenPriceUpdateMessageSchema,
+} from '../models/token-price-update-message';
+import {
+  TokenPriceCandleMessage,
+  tokenPriceCandleMessageSchema,
+} from '../models/token-price-candle-message';
+import {
+  TokenPriceStaleMessage,
+  tokenPriceStaleMessageSchema,
+} from '../models/token-price-stale-message';
+import {
+  PriceUpdateStateMessage,
+  priceUpdateStateMessageSchema,
+} from '../models/price-update-state-message';
+
+// Writes Kafka messages to the outbox table. Callers pass the manager of the
+// transaction that changes the data, so a message exists if and only if the
+// change was committed; OutboxRelayService publishes it afterwards.
+@Injectable()
+export class OutboxService {
+  private readonly topic: string;
+  private readonly candleTopic: string;
+  private readonly staleTopic: string;
+  private readonly stateTopic: string;
+
+  constructor() {
+    this.topic = process.env.KAFKA_TOPIC || 'token-price-updates';
+    this.candleTopic = process.env.KAFKA_CANDLE_TOPIC || 'token-price-candles';
+    this.staleTopic = process.env.KAFKA_STALE_TOPIC || 'token-price-stale';
+    this.stateTopic = process.env.KAFKA_STATE_TOPIC || 'token-price-update-state';
+  }
+
+  async enqueuePriceUpdate(
+    manager: EntityManager,
+    message: TokenPriceUpdateMessage,
+  ): Promise<void> {
+    // Validate the message with Zod schema
+    tokenPriceUpdateMessageSchema.parse(message);
+    await this.enqueue(manager, this.topic, message.tokenId, JSON.stringify(message));
+  }
+
+  async enqueueCandles(manager: EntityManager, messages: TokenPriceCandleMessage[]): Promise<void> {
+    for (const message of messages) {
+      // Validate the message with Zod schema
+      tokenPriceCandleMessageSchema.parse(message);
+      await this.enqueue(manager, this.candleTopic, message.tokenId, JSON.stringify(message));
+    }
+  }
+
+  async enqueueStaleEvent(manager: EntityManager, message: TokenPriceStaleMessage): Promise<void> {
+    // Validate the message with Zod schema
+    tokenPriceStaleMessageSchema.parse(message);
+    await this.enqueue(manager, this.staleTopic, message.tokenId, JSON.stringify(message));
+  }
+
+  async enqueueStateEvent(manager: EntityManager, message: PriceUpdateStateMessage): Promise<void> {
+    // Validate the message with Zod schema
+    priceUpdateStateMessageSchema.parse(message);
+    await this.enqueue(
+      manager,
+      this.stateTopic,
+      message.targetId ?? message.scope,
+      JSON.stringify(message),
+    );
+  }
+
+  async enqueue(
+    manager: EntityManager,
+    topic: string,
+    key: string,
+    payload: string,
+  ): Promise<void> {
+    await manager.insert(OutboxMessage, { topic, key, payload });
+  }
+}
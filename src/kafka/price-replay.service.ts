@@ -0,0 +1,253 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Kafka } from 'kafkajs';
+import { Repository } from 'typeorm';
+import { z } from 'zod';
+import { Token } from '../models/token.entity';
+import { priceInputSchema } from '../models/price.schema';
+import { parseQuoteCurrencies } from '../models/quote-currency';
+import { formatPrice, roundPrice } from '../common/price-decimal';
+import { withTimeout } from '../common/concurrency';
+import { createKafkaClient } from './kafka-client';
+
+// How long reading the topic may take when ReplayOptions.timeoutSeconds is unset
+const DEFAULT_TIMEOUT_SECONDS = 600;
+
+// Only the fields needed to restore a token; accepts every schema version and
+// the unversioned messages published before schemaVersion was introduced.
+// Prices are decimal strings since v2 and numbers before; messages without a
+// quote are in the base quote.
+const replayedUpdateSchema = z.object({
+  tokenId: z.string().uuid(),
+  quote: z.string().optional(),
+  newPrice: priceInputSchema,
+  timestamp: z.coerce.date(),
+});
+
+type ReplayedUpdate = z.infer<typeof replayedUpdateSchema>;
+
+export interface ReplayOptions {
+  // Start at this offset on every partition, or at the first message at or
+  // after this timestamp; both unset replays the whole topic
+  fromOffset?: number;
+  fromTimestamp?: Date;
+  // Report what would change without writing to the database
+  dryRun?: boolean;
+  // Give up if the end offsets have not been reached by then, e.g. because
+  // the messages before them were deleted by retention meanwhile
+  timeoutSeconds?: number;
+}
+
+export interface ReplayedTokenChange {
+  tokenId: string;
+  symbol: string | null;
+  // Decimal strings
+  oldPrice: string;
+  newPrice: string;
+  oldTimestamp: Date;
+  newTimestamp: Date;
+}
+
+export interface ReplayReport {
+  topic: string;
+  dryRun: boolean;
+  messagesRead: number;
+  invalidMessages: number;
+  updated: ReplayedTokenChange[];
+  // Tokens whose stored price is as new as or newer than the topic's
+  upToDate: string[];
+  unknownTokens: string[];
+}
+
+// Restores token prices from the price update topic, e.g. after Postgres was
+// restored from a backup. Reads the topic up to its current end, keeps the
+// newest update per token and applies it only where the stored price is older,
+// so running it again changes nothing.
+@Injectable()
+export class PriceReplayService {
+  private readonly logger = new Logger(PriceReplayService.name);
+  private readonly kafka: Kafka;
+  private readonly topic: string;
+  // Only updates in the base quote restore tokens.price
+  private readonly baseQuote: string;
+
+  constructor(
+    @InjectRepository(Token)
+    private readonly tokenRepository: Repository<Token>,
+  ) {
+    this.topic = process.env.KAFKA_TOPIC || 'token-price-updates';
+    this.baseQuote = parseQuoteCurrencies(process.env.PRICE_QUOTES)[0];
+
+    this.kafka = createKafkaClient('replay');
+  }
+
+  async replay(options: ReplayOptions = {}): Promise<ReplayReport> {
+    const report: ReplayReport = {
+      topic: this.topic,
+      dryRun: options.dryRun ?? false,
+      messagesRead: 0,
+      invalidMessages: 0,
+      updated: [],
+      upToDate: [],
+      unknownTokens: [],
+    };
+
+    const latest = await this.readLatest(options, report);
+    await this.apply([...latest.values()], report);
+    return report;
+  }
+
+  private async getOffsets(
+    options: ReplayOptions,
+  ): Promise<Array<{ partition: number; start: number; end: number }>> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+
+    try {
+      const watermarks = await admin.fetchTopicOffsets(this.topic);
+      const byTimestamp = options.fromTimestamp
+        ? await admin.fetchTopicOffsetsByTimestamp(this.topic, options.fromTimestamp.getTime())
+        : [];
+
+      return watermarks.map(({ partition, low, high }) => {
+        let start = parseInt(low, 10);
+        if (options.fromOffset !== undefined) {
+          start = Math.max(start, options.fromOffset);
+        } else if (options.fromTimestamp) {
+          const match = byTimestamp.find(offset => offset.partition === partition);
+          start = match ? Math.max(start, parseInt(match.offset, 10)) : start;
+        }
+        return { partition, start, end: parseInt(high, 10) };
+      });
+    } finally {
+      await admin.disconnect();
+    }
+  }
+
+  // Reads every partition from its start offset to the end offset it had when
+  // the replay began, keeping the newest update per token
+  private async readLatest(
+    options: ReplayOptions,
+    report: ReplayReport,
+  ): Promise<Map<string, ReplayedUpdate>> {
+    const latest = new Map<string, ReplayedUpdate>();
+    const offsets = (await this.getOffsets(options)).filter(({ start, end }) => start < end);
+    if (offsets.length === 0) {
+      return latest;
+    }
+
+    const pending = new Map(offsets.map(({ partition, end }) => [partition, end]));
+
+    // A throwaway group that never commits, so the replay does not move the
+    // offsets of any real consumer
+    const consumer = this.kafka.consumer({ groupId: `token-price-replay-${Date.now()}` });
+    await consumer.connect();
+
+    try {
+      await consumer.subscribe({ topic: this.topic, fromBeginning: true });
+
+      let finish!: () => void;
+      let fail!: (error: Error) => void;
+      const done = new Promise<void>((resolve, reject) => {
+        finish = resolve;
+        fail = reject;
+      });
+      consumer.on(consumer.events.CRASH, ({ payload }) => fail(payload.error));
+
+      await consumer.run({
+        autoCommit: false,
+        eachMessage: async ({ partition, message }) => {
+          const end = pending.get(partition);
+          const offset = parseInt(message.offset, 10);
+          if (end === undefined || offset >= end) {
+            return;
+          }
+
+          report.messagesRead++;
+          const parsed = replayedUpdateSchema.safeParse(
+            message.value ? this.parseJson(message.value.toString()) : null,
+          );
+          if (!parsed.success) {
+            report.invalidMessages++;
+          } else if ((parsed.data.quote ?? this.baseQuote) === this.baseQuote) {
+            const current = latest.get(parsed.data.tokenId);
+            if (!current || parsed.data.timestamp > current.timestamp) {
+              latest.set(parsed.data.tokenId, parsed.data);
+            }
+          }
+
+          if (offset >= end - 1) {
+            pending.delete(partition);
+            if (pending.size === 0) {
+              finish();
+            }
+          }
+        },
+      });
+
+      for (const { partition, start } of offsets) {
+        consumer.seek({ topic: this.topic, partition, offset: String(start) });
+      }
+      const timeoutSeconds = options.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+      await withTimeout(done, timeoutSeconds * 1000, `Reading ${this.topic}`);
+    } finally {
+      await consumer.disconnect();
+    }
+
+    this.logger.log(
+      `Read ${report.messagesRead} message(s) from ${this.topic}, ` +
+        `latest prices for ${latest.size} token(s)`,
+    );
+    return latest;
+  }
+
+  private parseJson(value: string): unknown {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  private async apply(updates: ReplayedUpdate[], report: ReplayReport): Promise<void> {
+    for (const update of updates) {
+      const token = await this.tokenRepository.findOne({ where: { id: update.tokenId } });
+      if (!token) {
+        report.unknownTokens.push(update.tokenId);
+        continue;
+      }
+
+      // Never overwrite a value that is newer than the replayed message; the
+      // condition is repeated in the update in case the price moved meanwhile
+      if (token.lastPriceUpdate >= update.timestamp) {
+        report.upToDate.push(token.id);
+        continue;
+      }
+
+      // Prices from before v2 are floats, round them like new prices
+      const newPrice = roundPrice(update.newPrice, token.decimals);
+      if (!report.dryRun) {
+        const { affected } = await this.tokenRepository
+          .createQueryBuilder()
+          .update(Token)
+          .set({ price: newPrice, lastPriceUpdate: update.timestamp })
+          .where('id = :id', { id: token.id })
+          .andWhere('"lastPriceUpdate" < :timestamp', { timestamp: update.timestamp })
+          .execute();
+        if (!affected) {
+          report.upToDate.push(token.id);
+          continue;
+        }
+      }
+
+      report.updated.push({
+        tokenId: token.id,
+        symbol: token.symbol ?? null,
+        oldPrice: formatPrice(token.price),
+        newPrice: formatPrice(newPrice),
+        oldTimestamp: token.lastPriceUpdate,
+        newTimestamp: update.timestamp,
+      });
+    }
+  }
+}
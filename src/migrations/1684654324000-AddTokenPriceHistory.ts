@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTokenPriceHistory1684654324000 implements MigrationInterface {
+  name = 'AddTokenPriceHistory1684654324000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create price history table, one row per price change
+    await queryRunner.query(`
+            CREATE TABLE "token_price_history" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "tokenId" uuid NOT NULL,
+                "price" numeric(28,18) NOT NULL,
+                "recordedAt" TIMESTAMP NOT NULL,
+                CONSTRAINT "PK_token_price_history" PRIMARY KEY ("id")
+            )
+        `);
+
+    await queryRunner.query(`
+            ALTER TABLE "token_price_history"
+            ADD CONSTRAINT "FK_token_price_history_tokenId"
+            FOREIGN KEY ("tokenId")
+            REFERENCES "tokens"("id")
+            ON DELETE CASCADE
+            ON UPDATE CASCADE
+        `);
+
+    // Time range queries always filter by token first
+    await queryRunner.query(`
+            CREATE INDEX "IDX_token_price_history_tokenId_recordedAt"
+            ON "token_price_history" ("tokenId", "recordedAt")
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_token_price_history_tokenId_recordedAt"`);
+    await queryRunner.query(
+      `ALTER TABLE "token_price_history" DROP CONSTRAINT "FK_token_price_history_tokenId"`,
+    );
+    await queryRunner.query(`DROP TABLE "token_price_history"`);
+  }
+}
@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTokenPriceCandles1684654325000 implements MigrationInterface {
+  name = 'AddTokenPriceCandles1684654325000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create OHLC candles table, one row per token, resolution and bucket
+    await queryRunner.query(`
+            CREATE TABLE "token_price_candles" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "tokenId" uuid NOT NULL,
+                "resolution" character varying(8) NOT NULL,
+                "openTime" TIMESTAMP NOT NULL,
+                "open" numeric(28,18) NOT NULL,
+                "high" numeric(28,18) NOT NULL,
+                "low" numeric(28,18) NOT NULL,
+                "close" numeric(28,18) NOT NULL,
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                CONSTRAINT "UQ_token_price_candles_tokenId_resolution_openTime"
+                    UNIQUE ("tokenId", "resolution", "openTime"),
+                CONSTRAINT "PK_token_price_candles" PRIMARY KEY ("id")
+            )
+        `);
+
+    await queryRunner.query(`
+            ALTER TABLE "token_price_candles"
+            ADD CONSTRAINT "FK_token_price_candles_tokenId"
+            FOREIGN KEY ("tokenId")
+            REFERENCES "tokens"("id")
+            ON DELETE CASCADE
+            ON UPDATE CASCADE
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "token_price_candles" DROP CONSTRAINT "FK_token_price_candles_tokenId"`,
+    );
+    await queryRunner.query(`DROP TABLE "token_price_candles"`);
+  }
+}
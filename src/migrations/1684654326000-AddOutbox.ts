@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOutbox1684654326000 implements MigrationInterface {
+  name = 'AddOutbox1684654326000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create outbox table for Kafka messages written with the data they describe
+    await queryRunner.query(`
+            CREATE TABLE "outbox" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "topic" character varying NOT NULL,
+                "key" character varying NOT NULL,
+                "payload" text NOT NULL,
+                "status" character varying(16) NOT NULL DEFAULT 'pending',
+                "attempts" integer NOT NULL DEFAULT '0',
+                "lastError" text,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "nextAttemptAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "sentAt" TIMESTAMP,
+                CONSTRAINT "PK_outbox" PRIMARY KEY ("id")
+            )
+        `);
+
+    // The relay polls for pending messages that are due
+    await queryRunner.query(`
+            CREATE INDEX "IDX_outbox_status_nextAttemptAt" ON "outbox" ("status", "nextAttemptAt")
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_outbox_status_nextAttemptAt"`);
+    await queryRunner.query(`DROP TABLE "outbox"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDeadLetterMessages1684654327000 implements MigrationInterface {
+  name = 'AddDeadLetterMessages1684654327000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create table for Kafka messages that could not be delivered
+    await queryRunner.query(`
+            CREATE TABLE "dead_letter_messages" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "topic" character varying NOT NULL,
+                "key" character varying NOT NULL,
+                "payload" text NOT NULL,
+                "error" text NOT NULL,
+                "attempts" integer NOT NULL,
+                "failedAt" TIMESTAMP NOT NULL,
+                "status" character varying(16) NOT NULL DEFAULT 'pending',
+                "resolvedAt" TIMESTAMP,
+                CONSTRAINT "PK_dead_letter_messages" PRIMARY KEY ("id")
+            )
+        `);
+
+    await queryRunner.query(`
+            CREATE INDEX "IDX_dead_letter_messages_status_failedAt"
+            ON "dead_letter_messages" ("status", "failedAt")
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_dead_letter_messages_status_failedAt"`);
+    await queryRunner.query(`DROP TABLE "dead_letter_messages"`);
+  }
+}
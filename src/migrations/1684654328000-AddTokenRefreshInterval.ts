@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTokenRefreshInterval1684654328000 implements MigrationInterface {
+  name = 'AddTokenRefreshInterval1684654328000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Per-token refresh interval, overriding the interval of the priority tier
+    await queryRunner.query(`
+            ALTER TABLE "tokens"
+            ADD COLUMN "refreshIntervalSeconds" integer,
+            ADD CONSTRAINT "CHK_tokens_refreshIntervalSeconds" CHECK ("refreshIntervalSeconds" > 0)
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "tokens"
+            DROP CONSTRAINT "CHK_tokens_refreshIntervalSeconds",
+            DROP COLUMN "refreshIntervalSeconds"
+        `);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTokenStaleness1684654329000 implements MigrationInterface {
+  name = 'AddTokenStaleness1684654329000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Set by the staleness watchdog while the price is older than the
+    // threshold of the token's priority tier, null while it is fresh
+    await queryRunner.query(`
+            ALTER TABLE "tokens"
+            ADD COLUMN "staleSince" TIMESTAMP
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "tokens"
+            DROP COLUMN "staleSince"
+        `);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTokenQuotePrices1684654330000 implements MigrationInterface {
+  name = 'AddTokenQuotePrices1684654330000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Token prices in the quote currencies other than the base quote, one row
+    // per token and quote
+    await queryRunner.query(`
+            CREATE TABLE "token_quote_prices" (
+                "tokenId" uuid NOT NULL,
+                "quote" character varying(10) NOT NULL,
+                "price" numeric(28,18) NOT NULL,
+                "lastPriceUpdate" TIMESTAMP NOT NULL,
+                CONSTRAINT "PK_token_quote_prices" PRIMARY KEY ("tokenId", "quote")
+            )
+        `);
+
+    await queryRunner.query(`
+            ALTER TABLE "token_quote_prices"
+            ADD CONSTRAINT "FK_token_quote_prices_tokenId"
+            FOREIGN KEY ("tokenId")
+            REFERENCES "tokens"("id")
+            ON DELETE CASCADE
+            ON UPDATE CASCADE
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "token_quote_prices" DROP CONSTRAINT "FK_token_quote_prices_tokenId"`,
+    );
+    await queryRunner.query(`DROP TABLE "token_quote_prices"`);
+  }
+}
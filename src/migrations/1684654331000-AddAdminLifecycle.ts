@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAdminLifecycle1684654331000 implements MigrationInterface {
+  name = 'AddAdminLifecycle1684654331000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Soft deletes: rows removed through the admin API keep their history and
+    // are hidden from every query
+    await queryRunner.query(`ALTER TABLE "tokens" ADD COLUMN "deletedAt" TIMESTAMP`);
+    await queryRunner.query(`
+            ALTER TABLE "chains"
+            ADD COLUMN "lastUpdateAuthor" character varying,
+            ADD COLUMN "deletedAt" TIMESTAMP
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "logos"
+            ADD COLUMN "lastUpdateAuthor" character varying,
+            ADD COLUMN "deletedAt" TIMESTAMP
+        `);
+
+    // A token exists once per chain and address, and a chain once per deId;
+    // deleted rows do not block creating them again
+    await queryRunner.query(`
+            CREATE UNIQUE INDEX "UQ_tokens_chainId_address"
+            ON "tokens" ("chainId", "address")
+            WHERE "deletedAt" IS NULL
+        `);
+    await queryRunner.query(`ALTER TABLE "chains" DROP CONSTRAINT "UQ_chains_deId"`);
+    await queryRunner.query(`
+            CREATE UNIQUE INDEX "UQ_chains_deId"
+            ON "chains" ("deId")
+            WHERE "deletedAt" IS NULL
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "UQ_chains_deId"`);
+    await queryRunner.query(`ALTER TABLE "chains" ADD CONSTRAINT "UQ_chains_deId" UNIQUE ("deId")`);
+    await queryRunner.query(`DROP INDEX "UQ_tokens_chainId_address"`);
+    await queryRunner.query(`
+            ALTER TABLE "logos"
+            DROP COLUMN "deletedAt",
+            DROP COLUMN "lastUpdateAuthor"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "chains"
+            DROP COLUMN "deletedAt",
+            DROP COLUMN "lastUpdateAuthor"
+        `);
+    await queryRunner.query(`ALTER TABLE "tokens" DROP COLUMN "deletedAt"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPriceUpdatePauses1684654332000 implements MigrationInterface {
+  name = 'AddPriceUpdatePauses1684654332000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Paused tokens keep their last price until they are resumed
+    await queryRunner.query(`
+            ALTER TABLE "tokens"
+            ADD COLUMN "isPaused" boolean NOT NULL DEFAULT false
+        `);
+
+    // Pause switch for the whole service, a single row
+    await queryRunner.query(`
+            CREATE TABLE "price_update_state" (
+                "id" integer NOT NULL,
+                "isPaused" boolean NOT NULL DEFAULT false,
+                "lastUpdateAuthor" character varying,
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                CONSTRAINT "CHK_price_update_state_single_row" CHECK ("id" = 1),
+                CONSTRAINT "PK_price_update_state" PRIMARY KEY ("id")
+            )
+        `);
+    await queryRunner.query(`INSERT INTO "price_update_state" ("id") VALUES (1)`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "price_update_state"`);
+    await queryRunner.query(`ALTER TABLE "tokens" DROP COLUMN "isPaused"`);
+  }
+}
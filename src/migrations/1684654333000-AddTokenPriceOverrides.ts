@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTokenPriceOverrides1684654333000 implements MigrationInterface {
+  name = 'AddTokenPriceOverrides1684654333000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // A pinned price is not overwritten by the price pipeline until it is
+    // unpinned or pinnedUntil has passed; null pinnedUntil never expires
+    await queryRunner.query(`
+            ALTER TABLE "tokens"
+            ADD COLUMN "isPinned" boolean NOT NULL DEFAULT false,
+            ADD COLUMN "pinnedUntil" TIMESTAMP
+        `);
+
+    // Audit trail of every pin, unpin and expiry
+    await queryRunner.query(`
+            CREATE TABLE "token_price_overrides" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "tokenId" uuid NOT NULL,
+                "action" character varying(8) NOT NULL,
+                "price" numeric(28,18),
+                "previousPrice" numeric(28,18) NOT NULL,
+                "expiresAt" TIMESTAMP,
+                "author" character varying,
+                "reason" character varying,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                CONSTRAINT "PK_token_price_overrides" PRIMARY KEY ("id")
+            )
+        `);
+
+    await queryRunner.query(`
+            ALTER TABLE "token_price_overrides"
+            ADD CONSTRAINT "FK_token_price_overrides_tokenId"
+            FOREIGN KEY ("tokenId")
+            REFERENCES "tokens"("id")
+            ON DELETE CASCADE
+            ON UPDATE CASCADE
+        `);
+
+    await queryRunner.query(`
+            CREATE INDEX "IDX_token_price_overrides_tokenId_createdAt"
+            ON "token_price_overrides" ("tokenId", "createdAt")
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_token_price_overrides_tokenId_createdAt"`);
+    await queryRunner.query(
+      `ALTER TABLE "token_price_overrides" DROP CONSTRAINT "FK_token_price_overrides_tokenId"`,
+    );
+    await queryRunner.query(`DROP TABLE "token_price_overrides"`);
+    await queryRunner.query(`
+            ALTER TABLE "tokens"
+            DROP COLUMN "pinnedUntil",
+            DROP COLUMN "isPinned"
+        `);
+  }
+}
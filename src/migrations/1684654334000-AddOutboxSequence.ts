@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOutboxSequence1684654334000 implements MigrationInterface {
+  name = 'AddOutboxSequence1684654334000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // createdAt is the transaction start time and is shared by every message
+    // enqueued in one transaction, so it cannot order them
+    await queryRunner.query(`
+            ALTER TABLE "outbox" ADD COLUMN "sequence" BIGSERIAL NOT NULL
+        `);
+
+    // The relay looks for earlier pending messages with the same key
+    await queryRunner.query(`
+            CREATE INDEX "IDX_outbox_topic_key_sequence" ON "outbox" ("topic", "key", "sequence")
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_outbox_topic_key_sequence"`);
+    await queryRunner.query(`ALTER TABLE "outbox" DROP COLUMN "sequence"`);
+  }
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { tokenSchema } from './token.schema';
+import { hexAddressSchema } from './token-query.schema';
+
+// Request bodies of the admin API. Fields and their constraints come from
+// tokenSchema, including its denormalized chain and logo fields; updates take
+// any subset of the create fields, like validatePartialToken.
+
+// Zod schema for creating a chain
+export const createChainSchema = z
+  .object({
+    deId: tokenSchema.shape.chain_DeId.pipe(z.number().int().nonnegative()),
+    name: tokenSchema.shape.chain_Name.pipe(z.string().min(1)),
+    isEnabled: tokenSchema.shape.chain_IsEnabled,
+  })
+  .strict();
+
+// isEnabled is changed through pause and resume, which publish the change
+export const updateChainSchema = createChainSchema.omit({ isEnabled: true }).partial().strict();
+
+// Zod schema for creating a logo
+export const createLogoSchema = z
+  .object({
+    bigRelativePath: tokenSchema.shape.logo_BigRelativePath.pipe(z.string().min(1)),
+    smallRelativePath: tokenSchema.shape.logo_SmallRelativePath.pipe(z.string().min(1)),
+    thumbRelativePath: tokenSchema.shape.logo_ThumbRelativePath.pipe(z.string().min(1)),
+  })
+  .strict();
+
+export const updateLogoSchema = createLogoSchema.partial().strict();
+
+// Zod schema for creating a token; the price is left to the price providers
+export const createTokenSchema = tokenSchema
+  .pick({
+    symbol: true,
+    name: true,
+    decimals: true,
+    isNative: true,
+    chainId: true,
+    isProtected: true,
+    priority: true,
+  })
+  .extend({
+    // Hex string on the wire, stored as bytes
+    address: hexAddressSchema,
+    logoId: z.string().uuid().nullable().optional(),
+    refreshIntervalSeconds: z.number().int().positive().nullable().optional(),
+  })
+  .strict();
+
+// isProtected is changed through protect and unprotect, so no update can both
+// lift the protection and make other changes
+export const updateTokenSchema = createTokenSchema.omit({ isProtected: true }).partial().strict();
+
+// Types derived from the schemas
+export type CreateChainRequest = z.infer<typeof createChainSchema>;
+export type UpdateChainRequest = z.infer<typeof updateChainSchema>;
+export type CreateLogoRequest = z.infer<typeof createLogoSchema>;
+export type UpdateLogoRequest = z.infer<typeof updateLogoSchema>;
+export type CreateTokenRequest = z.infer<typeof createTokenSchema>;
+export type UpdateTokenRequest = z.infer<typeof updateTokenSchema>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { CANDLE_RESOLUTIONS } from './token-price-candle.entity';
+import { Candle } from '../services/candle-aggregator.service';
+import { formatPrice } from '../common/price-decimal';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+// Zod schema for the candle query
+export const candleQuerySchema = z
+  .object({
+    resolution: z.enum(CANDLE_RESOLUTIONS).default('1m'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .transform(query => {
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - DEFAULT_RANGE_MS);
+    return { resolution: query.resolution, from, to };
+  })
+  .refine(query => query.from < query.to, { message: '"from" must be before "to"' });
+
+export type CandleQuery = z.infer<typeof candleQuerySchema>;
+
+// Candle with prices as decimal strings
+export interface CandleResponse {
+  tokenId: string;
+  resolution: Candle['resolution'];
+  openTime: Date;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+}
+
+export interface CandleSeriesResponse extends CandleQuery {
+  tokenId: string;
+  candles: CandleResponse[];
+}
+
+export function toCandleResponse(candle: Candle): CandleResponse {
+  return {
+    ...candle,
+    open: formatPrice(candle.open),
+    high: formatPrice(candle.high),
+    low: formatPrice(candle.low),
+    close: formatPrice(candle.close),
+  };
+}
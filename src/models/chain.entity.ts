@@ -1,12 +1,20 @@
-import { Entity, Column, PrimaryGeneratedColumn, OneToMany } from 'typeorm';
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  OneToMany,
+  DeleteDateColumn,
+  Index,
+} from 'typeorm';
 import { Token } from './token.entity';
 
 @Entity('chains')
+@Index('UQ_chains_deId', ['deId'], { unique: true, where: '"deletedAt" IS NULL' })
 export class Chain {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
-  @Column({ type: 'decimal', unique: true })
+  @Column({ type: 'decimal' })
   deId!: number;
 
   @Column()
@@ -15,12 +23,19 @@ export class Chain {
   @Column({ default: true })
   isEnabled!: boolean;
 
+  @Column({ nullable: true })
+  lastUpdateAuthor!: string | null;
+
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   createdAt!: Date;
 
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
   updatedAt!: Date;
 
+  // Set when the chain is deleted through the admin API
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt!: Date | null;
+
   @OneToMany(() => Token, token => token.chain)
   tokens!: Token[];
 }
@@ -0,0 +1,35 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+export type DeadLetterStatus = 'pending' | 'replayed' | 'discarded';
+
+@Entity('dead_letter_messages')
+@Index('IDX_dead_letter_messages_status_failedAt', ['status', 'failedAt'])
+export class DeadLetterMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  topic!: string;
+
+  @Column()
+  key!: string;
+
+  // Serialized Kafka message value
+  @Column({ type: 'text' })
+  payload!: string;
+
+  @Column({ type: 'text' })
+  error!: string;
+
+  @Column()
+  attempts!: number;
+
+  @Column({ type: 'timestamp' })
+  failedAt!: Date;
+
+  @Column({ type: 'varchar', length: 16, default: 'pending' })
+  status!: DeadLetterStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt!: Date | null;
+}
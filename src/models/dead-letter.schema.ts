@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { DeadLetterMessage } from './dead-letter-message.entity';
+
+// Zod schema for the dead-letter list query
+export const deadLetterListQuerySchema = z.object({
+  status: z.enum(['pending', 'replayed', 'discarded']).default('pending'),
+  topic: z.string().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type DeadLetterListQuery = z.infer<typeof deadLetterListQuerySchema>;
+
+// Zod schema for bulk replay
+export const deadLetterReplaySchema = z.object({
+  topic: z.string().min(1).optional(),
+});
+
+export type DeadLetterReplayRequest = z.infer<typeof deadLetterReplaySchema>;
+
+export interface DeadLetterResponse {
+  id: string;
+  topic: string;
+  key: string;
+  payload: unknown;
+  error: string;
+  attempts: number;
+  failedAt: Date;
+  status: string;
+  resolvedAt: Date | null;
+}
+
+export function toDeadLetterResponse(message: DeadLetterMessage): DeadLetterResponse {
+  let payload: unknown = message.payload;
+  try {
+    payload = JSON.parse(message.payload);
+  } catch {
+    // Keep the raw payload if it is not JSON
+  }
+
+  return {
+    id: message.id,
+    topic: message.topic,
+    key: message.key,
+    payload,
+    error: message.error,
+    attempts: message.attempts,
+    failedAt: message.failedAt,
+    status: message.status,
+    resolvedAt: message.resolvedAt,
+  };
+}
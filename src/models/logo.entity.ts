@@ -1,4 +1,4 @@
-import { Entity, Column, PrimaryGeneratedColumn, OneToOne } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, OneToOne, DeleteDateColumn } from 'typeorm';
 import { Token } from './token.entity';
 
 @Entity('logos')
@@ -18,12 +18,19 @@ export class Logo {
   @Column()
   thumbRelativePath!: string;
 
+  @Column({ nullable: true })
+  lastUpdateAuthor!: string | null;
+
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   createdAt!: Date;
 
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
   updatedAt!: Date;
 
+  // Set when the logo is deleted through the admin API
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt!: Date | null;
+
   @OneToOne(() => Token, token => token.logo)
   token!: Token;
 }
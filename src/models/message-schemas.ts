@@ -0,0 +1,48 @@
+import { ZodTypeAny } from 'zod';
+import {
+  TOKEN_PRICE_UPDATE_SCHEMA_VERSION,
+  tokenPriceUpdateMessageSchema,
+} from './token-price-update-message';
+import {
+  TOKEN_PRICE_STALE_SCHEMA_VERSION,
+  tokenPriceStaleMessageSchema,
+} from './token-price-stale-message';
+import {
+  PRICE_UPDATE_STATE_SCHEMA_VERSION,
+  priceUpdateStateMessageSchema,
+} from './price-update-state-message';
+import {
+  TOKEN_PRICE_CANDLE_SCHEMA_VERSION,
+  tokenPriceCandleMessageSchema,
+} from './token-price-candle-message';
+
+export interface PublishedMessageSchema {
+  // Directory under schemas/ holding one JSON Schema file per version
+  name: string;
+  version: number;
+  schema: ZodTypeAny;
+}
+
+// Message schemas published to consumers as JSON Schema
+export const PUBLISHED_MESSAGE_SCHEMAS: PublishedMessageSchema[] = [
+  {
+    name: 'token-price-update',
+    version: TOKEN_PRICE_UPDATE_SCHEMA_VERSION,
+    schema: tokenPriceUpdateMessageSchema,
+  },
+  {
+    name: 'token-price-stale',
+    version: TOKEN_PRICE_STALE_SCHEMA_VERSION,
+    schema: tokenPriceStaleMessageSchema,
+  },
+  {
+    name: 'price-update-state',
+    version: PRICE_UPDATE_STATE_SCHEMA_VERSION,
+    schema: priceUpdateStateMessageSchema,
+  },
+  {
+    name: 'token-price-candle',
+    version: TOKEN_PRICE_CANDLE_SCHEMA_VERSION,
+    schema: tokenPriceCandleMessageSchema,
+  },
+];
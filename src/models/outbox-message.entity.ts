@@ -0,0 +1,44 @@
+import { Entity, Column, Generated, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+export type OutboxStatus = 'pending' | 'sent';
+
+@Entity('outbox')
+@Index('IDX_outbox_status_nextAttemptAt', ['status', 'nextAttemptAt'])
+@Index('IDX_outbox_topic_key_sequence', ['topic', 'key', 'sequence'])
+export class OutboxMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Enqueue order; bigint is returned as a string
+  @Column({ type: 'bigint' })
+  @Generated('increment')
+  sequence!: string;
+
+  @Column()
+  topic!: string;
+
+  @Column()
+  key!: string;
+
+  // Serialized Kafka message value
+  @Column({ type: 'text' })
+  payload!: string;
+
+  @Column({ type: 'varchar', length: 16, default: 'pending' })
+  status!: OutboxStatus;
+
+  @Column({ default: 0 })
+  attempts!: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError!: string | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt!: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  sentAt!: Date | null;
+}
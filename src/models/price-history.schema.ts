@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { DURATION_PATTERN, parseDurationSeconds } from '../common/duration';
+
+// Upper bound on points returned by a single series request
+export const MAX_SERIES_POINTS = 10000;
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+// Zod schema for the price series query
+export const priceHistoryQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    step: z
+      .string()
+      .regex(DURATION_PATTERN, 'Step must look like 30s, 5m, 1h or 1d')
+      .transform(parseDurationSeconds)
+      .optional(),
+  })
+  .transform(query => {
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - DEFAULT_RANGE_MS);
+    return { from, to, stepSeconds: query.step ?? null };
+  })
+  .refine(query => query.from < query.to, { message: '"from" must be before "to"' })
+  .refine(
+    query =>
+      query.stepSeconds === null ||
+      (query.to.getTime() - query.from.getTime()) / 1000 / query.stepSeconds <= MAX_SERIES_POINTS,
+    { message: `Range and step would produce more than ${MAX_SERIES_POINTS} points` },
+  );
+
+export type PriceHistoryQuery = z.infer<typeof priceHistoryQuerySchema>;
+
+export interface PricePoint {
+  timestamp: Date;
+  // Decimal string, see priceStringSchema
+  price: string;
+}
+
+export interface PriceSeriesResponse {
+  tokenId: string;
+  from: Date;
+  to: Date;
+  stepSeconds: number | null;
+  points: PricePoint[];
+}
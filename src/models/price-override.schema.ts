@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { priceInputSchema } from './price.schema';
+import { PRICE_OVERRIDE_ACTIONS, TokenPriceOverride } from './token-price-override.entity';
+import { formatPrice } from '../common/price-decimal';
+
+// Zod schema for pinning a token price; without expiresAt the pin holds until
+// unpinned
+export const priceOverrideSchema = z
+  .object({
+    price: priceInputSchema.refine(price => price.gt(0), 'Price must be positive'),
+    expiresAt: z.coerce
+      .date()
+      .refine(date => date > new Date(), 'expiresAt must be in the future')
+      .optional(),
+    reason: z.string().min(1).max(500).optional(),
+  })
+  .strict();
+
+export type PriceOverrideRequest = z.infer<typeof priceOverrideSchema>;
+
+// Zod schema for the override audit query
+export const priceOverrideListQuerySchema = z.object({
+  tokenId: z.string().uuid().optional(),
+  action: z.enum(PRICE_OVERRIDE_ACTIONS).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type PriceOverrideListQuery = z.infer<typeof priceOverrideListQuerySchema>;
+
+export interface PriceOverrideResponse {
+  id: string;
+  tokenId: string;
+  action: string;
+  price: string | null;
+  previousPrice: string;
+  expiresAt: Date | null;
+  author: string | null;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export function toPriceOverrideResponse(override: TokenPriceOverride): PriceOverrideResponse {
+  return {
+    id: override.id,
+    tokenId: override.tokenId,
+    action: override.action,
+    price: override.price && formatPrice(override.price),
+    previousPrice: formatPrice(override.previousPrice),
+    expiresAt: override.expiresAt,
+    author: override.author,
+    reason: override.reason,
+    createdAt: override.createdAt,
+  };
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { hexAddressSchema } from './token-query.schema';
+import { priceInputSchema } from './price.schema';
+import { quoteCurrencySchema } from './quote-currency';
+
+// Zod schema for a price quote consumed from an external feed
+export const priceQuoteMessageSchema = z.object({
+  // Chain the token lives on, by its public chain id
+  deId: z.number().int().nonnegative(),
+  address: hexAddressSchema,
+  // Preferably a decimal string; JSON numbers are accepted but not exact
+  price: priceInputSchema.refine(price => price.gt(0), 'Must be positive'),
+  // Currency of the price, one of PRICE_QUOTES; the base quote when omitted
+  quote: quoteCurrencySchema.optional(),
+  source: z.string().min(1).default('kafka'),
+  timestamp: z
+    .string()
+    .datetime({ offset: true })
+    .transform(value => new Date(value)),
+});
+
+// Type derived from the schema
+export type PriceQuoteMessage = z.infer<typeof priceQuoteMessageSchema>;
+
+// Parses and validates a quote read from Kafka
+export function parsePriceQuoteMessage(value: string): PriceQuoteMessage {
+  return priceQuoteMessageSchema.parse(JSON.parse(value));
+}
@@ -0,0 +1,44 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+
+// Bump on every breaking change to the schema; `npm run schemas:check` fails
+// when the published JSON Schema for this version is broken
+export const PRICE_UPDATE_STATE_SCHEMA_VERSION = 1;
+
+// Zod schema for the event published when price updates are paused or resumed
+// for the whole service, a chain or a token
+export const priceUpdateStateMessageSchema = z.object({
+  schemaVersion: z.literal(PRICE_UPDATE_STATE_SCHEMA_VERSION),
+  // Unique per message, consumers use it to drop redeliveries
+  messageId: z.string().uuid(),
+  scope: z.enum(['service', 'chain', 'token']),
+  // Chain or token id; null for the service
+  targetId: z.string().uuid().nullable(),
+  // Chain name or token symbol
+  name: z.string().nullable(),
+  status: z.enum(['paused', 'resumed']),
+  // Admin API key author that made the change
+  author: z.string().min(1),
+  // ISO 8601 string so the value survives JSON serialization
+  timestamp: z.string().datetime(),
+});
+
+// Type derived from the schema
+export type PriceUpdateStateMessage = z.infer<typeof priceUpdateStateMessageSchema>;
+
+// Helper function to create a validated message
+export function createPriceUpdateStateMessage(data: {
+  scope: 'service' | 'chain' | 'token';
+  targetId: string | null;
+  name: string | null;
+  status: 'paused' | 'resumed';
+  author: string;
+  timestamp?: Date;
+}): PriceUpdateStateMessage {
+  return priceUpdateStateMessageSchema.parse({
+    ...data,
+    schemaVersion: PRICE_UPDATE_STATE_SCHEMA_VERSION,
+    messageId: randomUUID(),
+    timestamp: (data.timestamp || new Date()).toISOString(),
+  });
+}
@@ -0,0 +1,21 @@
+import { Entity, Column, PrimaryColumn } from 'typeorm';
+
+// Id of the only row
+export const PRICE_UPDATE_STATE_ID = 1;
+
+// Whether price updates are paused for the whole service. A single row, so
+// every instance sees the same state.
+@Entity('price_update_state')
+export class PriceUpdateState {
+  @PrimaryColumn({ type: 'integer' })
+  id!: number;
+
+  @Column({ default: false })
+  isPaused!: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  lastUpdateAuthor!: string | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { DECIMAL_STRING_PATTERN, toPrice } from '../common/price-decimal';
+
+// A price as written to Kafka and returned by the API
+export const priceStringSchema = z
+  .string()
+  .regex(DECIMAL_STRING_PATTERN, 'Must be a non-negative decimal string, e.g. "1234.5678"');
+
+// A price read from an external source. Decimal strings are taken exactly;
+// numbers are still accepted from sources that send JSON numbers, which have
+// already been through a float
+export const priceInputSchema = z
+  .union([priceStringSchema, z.number().nonnegative().finite()])
+  .transform(value => toPrice(value));
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+// Quote prices are kept in when PRICE_QUOTES is not set
+export const DEFAULT_QUOTE = 'USD';
+
+// Currency code such as "USD", "EUR" or "BTC"; case-insensitive on input
+export const quoteCurrencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .pipe(z.string().regex(/^[A-Z0-9]{2,10}$/, 'Must be a 2-10 character currency code'));
+
+// Parses a comma separated list of quote currencies such as "USD,EUR,BTC".
+// The first entry is the base quote: providers price tokens in it and it is
+// what tokens.price, the price history and the candles are kept in.
+export function parseQuoteCurrencies(value: string | undefined): string[] {
+  const quotes: string[] = [];
+
+  for (const entry of (value || DEFAULT_QUOTE).split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+
+    const result = quoteCurrencySchema.safeParse(entry);
+    if (!result.success) {
+      throw new Error(`Invalid quote currency "${entry.trim()}"`);
+    }
+    if (!quotes.includes(result.data)) {
+      quotes.push(result.data);
+    }
+  }
+
+  return quotes.length ? quotes : [DEFAULT_QUOTE];
+}
@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { CANDLE_RESOLUTIONS, CandleResolution } from './token-price-candle.entity';
+import { priceStringSchema } from './price.schema';
+import { Price, formatPrice } from '../common/price-decimal';
+
+// Bump on every breaking change to the schema; `npm run schemas:check` fails
+// when the published JSON Schema for this version is broken
+export const TOKEN_PRICE_CANDLE_SCHEMA_VERSION = 1;
+
+// Zod schema for token price candle message
+export const tokenPriceCandleMessageSchema = z.object({
+  schemaVersion: z.literal(TOKEN_PRICE_CANDLE_SCHEMA_VERSION),
+  // Unique per message, consumers use it to drop redeliveries
+  messageId: z.string().uuid(),
+  tokenId: z.string().uuid(),
+  symbol: z.string().min(1),
+  resolution: z.enum(CANDLE_RESOLUTIONS),
+  // ISO 8601 strings so the values survive JSON serialization
+  openTime: z.string().datetime(),
+  // Decimal strings, so no precision is lost in JSON
+  open: priceStringSchema,
+  high: priceStringSchema,
+  low: priceStringSchema,
+  close: priceStringSchema,
+  timestamp: z.string().datetime(),
+});
+
+// Type derived from the schema
+export type TokenPriceCandleMessage = z.infer<typeof tokenPriceCandleMessageSchema>;
+
+// Helper function to create a validated message
+export function createTokenPriceCandleMessage(data: {
+  tokenId: string;
+  symbol: string;
+  resolution: CandleResolution;
+  openTime: Date;
+  open: Price;
+  high: Price;
+  low: Price;
+  close: Price;
+  timestamp?: Date;
+}): TokenPriceCandleMessage {
+  return tokenPriceCandleMessageSchema.parse({
+    ...data,
+    schemaVersion: TOKEN_PRICE_CANDLE_SCHEMA_VERSION,
+    messageId: randomUUID(),
+    openTime: data.openTime.toISOString(),
+    open: formatPrice(data.open),
+    high: formatPrice(data.high),
+    low: formatPrice(data.low),
+    close: formatPrice(data.close),
+    timestamp: (data.timestamp || new Date()).toISOString(),
+  });
+}
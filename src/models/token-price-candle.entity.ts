@@ -0,0 +1,43 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Unique } from 'typeorm';
+import { Token } from './token.entity';
+import { Price, priceTransformer } from '../common/price-decimal';
+
+// Supported candle resolutions, from finest to coarsest
+export const CANDLE_RESOLUTIONS = ['1m', '5m', '1h', '1d'] as const;
+
+export type CandleResolution = (typeof CANDLE_RESOLUTIONS)[number];
+
+@Entity('token_price_candles')
+@Unique('UQ_token_price_candles_tokenId_resolution_openTime', ['tokenId', 'resolution', 'openTime'])
+export class TokenPriceCandle {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  tokenId!: string;
+
+  @ManyToOne(() => Token, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tokenId' })
+  token!: Token;
+
+  @Column({ type: 'varchar', length: 8 })
+  resolution!: CandleResolution;
+
+  @Column({ type: 'timestamp' })
+  openTime!: Date;
+
+  @Column({ type: 'decimal', precision: 28, scale: 18, transformer: priceTransformer })
+  open!: Price;
+
+  @Column({ type: 'decimal', precision: 28, scale: 18, transformer: priceTransformer })
+  high!: Price;
+
+  @Column({ type: 'decimal', precision: 28, scale: 18, transformer: priceTransformer })
+  low!: Price;
+
+  @Column({ type: 'decimal', precision: 28, scale: 18, transformer: priceTransformer })
+  close!: Price;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  updatedAt!: Date;
+}
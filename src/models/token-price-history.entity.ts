@@ -0,0 +1,28 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Token } from './token.entity';
+import { Price, priceTransformer } from '../common/price-decimal';
+
+@Entity('token_price_history')
+@Index('IDX_token_price_history_tokenId_recordedAt', ['tokenId', 'recordedAt'])
+export class TokenPriceHistory {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  tokenId!: string;
+
+  @ManyToOne(() => Token, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tokenId' })
+  token!: Token;
+
+  @Column({
+    type: 'decimal',
+    precision: 28,
+    scale: 18,
+    transformer: priceTransformer,
+  })
+  price!: Price;
+
+  @Column({ type: 'timestamp' })
+  recordedAt!: Date;
+}
@@ -0,0 +1,60 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Token } from './token.entity';
+import { Price, priceTransformer } from '../common/price-decimal';
+
+// Pinned by an operator, unpinned by an operator, or cleared by the price
+// pipeline once the pin had expired
+export const PRICE_OVERRIDE_ACTIONS = ['pin', 'unpin', 'expire'] as const;
+
+export type PriceOverrideAction = (typeof PRICE_OVERRIDE_ACTIONS)[number];
+
+// Audit trail of manual price overrides; rows are only ever inserted
+@Entity('token_price_overrides')
+@Index('IDX_token_price_overrides_tokenId_createdAt', ['tokenId', 'createdAt'])
+export class TokenPriceOverride {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  tokenId!: string;
+
+  @ManyToOne(() => Token, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tokenId' })
+  token!: Token;
+
+  @Column({ type: 'varchar', length: 8 })
+  action!: PriceOverrideAction;
+
+  // The pinned price; null for unpin and expire
+  @Column({
+    type: 'decimal',
+    precision: 28,
+    scale: 18,
+    nullable: true,
+    transformer: priceTransformer,
+  })
+  price!: Price | null;
+
+  // Token price when the action was taken
+  @Column({ type: 'decimal', precision: 28, scale: 18, transformer: priceTransformer })
+  previousPrice!: Price;
+
+  // Expiry of the pin; null if it does not expire
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt!: Date | null;
+
+  // Admin API key author; null when the pipeline cleared an expired pin
+  @Column({ type: 'varchar', nullable: true })
+  author!: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  reason!: string | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
+}
+
+// Whether a pinned price is in force, so the pipeline must not overwrite it
+export function isPinActive(token: Pick<Token, 'isPinned' | 'pinnedUntil'>, now: Date): boolean {
+  return token.isPinned && (!token.pinnedUntil || token.pinnedUntil > now);
+}
@@ -0,0 +1,54 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { priceStringSchema } from './price.schema';
+import { Price, formatPrice } from '../common/price-decimal';
+
+// Bump on every breaking change to the schema; `npm run schemas:check` fails
+// when the published JSON Schema for this version is broken
+export const TOKEN_PRICE_STALE_SCHEMA_VERSION = 2;
+
+// Zod schema for the event published when a token's price goes stale or
+// recovers
+export const tokenPriceStaleMessageSchema = z.object({
+  schemaVersion: z.literal(TOKEN_PRICE_STALE_SCHEMA_VERSION),
+  // Unique per message, consumers use it to drop redeliveries
+  messageId: z.string().uuid(),
+  tokenId: z.string().uuid(),
+  symbol: z.string().min(1),
+  chainId: z.string().uuid(),
+  priority: z.number().int(),
+  // "stale" when the price got older than the threshold, "recovered" once it
+  // has been updated again
+  status: z.enum(['stale', 'recovered']),
+  // The price, as a decimal string since v2, and when it was last updated
+  price: priceStringSchema,
+  lastPriceUpdate: z.string().datetime(),
+  thresholdSeconds: z.number().positive(),
+  // ISO 8601 string so the value survives JSON serialization
+  timestamp: z.string().datetime(),
+});
+
+// Type derived from the schema
+export type TokenPriceStaleMessage = z.infer<typeof tokenPriceStaleMessageSchema>;
+
+// Helper function to create a validated message
+export function createTokenPriceStaleMessage(data: {
+  tokenId: string;
+  symbol: string;
+  chainId: string;
+  priority: number;
+  status: 'stale' | 'recovered';
+  price: Price;
+  lastPriceUpdate: Date;
+  thresholdSeconds: number;
+  timestamp?: Date;
+}): TokenPriceStaleMessage {
+  return tokenPriceStaleMessageSchema.parse({
+    ...data,
+    schemaVersion: TOKEN_PRICE_STALE_SCHEMA_VERSION,
+    messageId: randomUUID(),
+    price: formatPrice(data.price),
+    lastPriceUpdate: data.lastPriceUpdate.toISOString(),
+    timestamp: (data.timestamp || new Date()).toISOString(),
+  });
+}
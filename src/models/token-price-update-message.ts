@@ -1,12 +1,43 @@
+import { randomUUID } from 'crypto';
 import { z } from 'zod';
+import { priceStringSchema } from './price.schema';
+import { quoteCurrencySchema } from './quote-currency';
+import { Price, formatPrice } from '../common/price-decimal';
+
+// Bump on every breaking change to the schema; `npm run schemas:check` fails
+// when the published JSON Schema for this version is broken
+export const TOKEN_PRICE_UPDATE_SCHEMA_VERSION = 4;
 
 // Zod schema for token price update message
 export const tokenPriceUpdateMessageSchema = z.object({
+  schemaVersion: z.literal(TOKEN_PRICE_UPDATE_SCHEMA_VERSION),
+  // Unique per message, consumers use it to drop redeliveries
+  messageId: z.string().uuid(),
+  // Service instance that produced the message
+  producer: z.string().min(1),
   tokenId: z.string().uuid(),
   symbol: z.string().min(1),
-  oldPrice: z.number().nonnegative(),
-  newPrice: z.number().nonnegative(),
-  timestamp: z.date(),
+  chainId: z.string().uuid(),
+  deId: z.number().int().nonnegative(),
+  address: z.string().regex(/^0x[0-9a-f]*$/),
+  decimals: z.number().int().nonnegative(),
+  // Currency oldPrice and newPrice are in; an update is published once per
+  // supported quote, all keyed by the token id. Required since v4; messages
+  // without it predate quote support and are in the base quote.
+  quote: quoteCurrencySchema,
+  // Decimal strings rounded to the token's decimals; v1 sent JSON numbers,
+  // which lost precision
+  oldPrice: priceStringSchema,
+  newPrice: priceStringSchema,
+  // Price sources that contributed to newPrice
+  sources: z.array(z.string().min(1)).min(1),
+  // Why the price was published: it moved past the threshold, a heartbeat, or
+  // (since v3) an operator pinned it
+  reason: z.enum(['deviation', 'heartbeat', 'override']),
+  // Admin API key author of an override
+  author: z.string().min(1).optional(),
+  // ISO 8601 string so the value survives JSON serialization
+  timestamp: z.string().datetime(),
 });
 
 // Type derived from the schema
@@ -14,14 +45,32 @@ export type TokenPriceUpdateMessage = z.infer<typeof tokenPriceUpdateMessageSche
 
 // Helper function to create a validated message
 export function createTokenPriceUpdateMessage(data: {
+  producer: string;
   tokenId: string;
   symbol: string;
-  oldPrice: number;
-  newPrice: number;
+  chainId: string;
+  deId: number;
+  address: string;
+  decimals: number;
+  quote: string;
+  oldPrice: Price;
+  newPrice: Price;
+  sources: string[];
+  reason: 'deviation' | 'heartbeat' | 'override';
+  author?: string;
   timestamp?: Date;
 }): TokenPriceUpdateMessage {
   return tokenPriceUpdateMessageSchema.parse({
     ...data,
-    timestamp: data.timestamp || new Date(),
+    schemaVersion: TOKEN_PRICE_UPDATE_SCHEMA_VERSION,
+    messageId: randomUUID(),
+    oldPrice: formatPrice(data.oldPrice),
+    newPrice: formatPrice(data.newPrice),
+    timestamp: (data.timestamp || new Date()).toISOString(),
   });
 }
+
+// Parses and validates a message read from Kafka
+export function parseTokenPriceUpdateMessage(value: string): TokenPriceUpdateMessage {
+  return tokenPriceUpdateMessageSchema.parse(JSON.parse(value));
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { quoteCurrencySchema } from './quote-currency';
+
+// Hex encoded token address, with or without the 0x prefix
+export const hexAddressSchema = z
+  .string()
+  .regex(/^(0x)?([0-9a-fA-F]{2})+$/, 'Address must be an even-length hex string')
+  .transform(value => Buffer.from(value.replace(/^0x/, ''), 'hex'));
+
+// Query strings only carry strings, so booleans are parsed explicitly
+const booleanQuerySchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
+// Zod schema for the currency token prices are returned in; the base quote
+// when omitted
+export const tokenQuoteQuerySchema = z.object({
+  quote: quoteCurrencySchema.optional(),
+});
+
+export type TokenQuoteQuery = z.infer<typeof tokenQuoteQuerySchema>;
+
+// Zod schema for the token list query
+export const tokenListQuerySchema = tokenQuoteQuerySchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  chainId: z.string().uuid().optional(),
+  symbol: z.string().min(1).optional(),
+  isNative: booleanQuerySchema.optional(),
+  priority: z.coerce.number().int().optional(),
+});
+
+export type TokenListQuery = z.infer<typeof tokenListQuerySchema>;
+
+// Zod schema for looking a token up by chain and address
+export const tokenAddressParamsSchema = z.object({
+  chainId: z.string().uuid(),
+  address: hexAddressSchema,
+});
+
+export type TokenAddressParams = z.infer<typeof tokenAddressParamsSchema>;
@@ -0,0 +1,25 @@
+import { Entity, Column, PrimaryColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Token } from './token.entity';
+import { Price, priceTransformer } from '../common/price-decimal';
+
+// Price of a token in a quote currency other than the base quote as last
+// published, converted when the token's price is updated. It is the oldPrice
+// of the next message in that quote; reads convert the current base price.
+@Entity('token_quote_prices')
+export class TokenQuotePrice {
+  @PrimaryColumn({ type: 'uuid' })
+  tokenId!: string;
+
+  @PrimaryColumn({ type: 'varchar', length: 10 })
+  quote!: string;
+
+  @ManyToOne(() => Token, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tokenId' })
+  token!: Token;
+
+  @Column({ type: 'decimal', precision: 28, scale: 18, transformer: priceTransformer })
+  price!: Price;
+
+  @Column({ type: 'timestamp' })
+  lastPriceUpdate!: Date;
+}
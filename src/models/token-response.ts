@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { Token } from './token.entity';
+import { Chain } from './chain.entity';
+import { Logo } from './logo.entity';
+import { priceStringSchema } from './price.schema';
+import { Price, formatPrice } from '../common/price-decimal';
+
+// Zod schema for chain data returned by the API
+export const chainResponseSchema = z.object({
+  id: z.string().uuid(),
+  deId: z.number(),
+  name: z.string(),
+  isEnabled: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Zod schema for logo data returned by the API
+export const logoResponseSchema = z.object({
+  id: z.string().uuid(),
+  bigRelativePath: z.string(),
+  smallRelativePath: z.string(),
+  thumbRelativePath: z.string(),
+});
+
+// Zod schema for token data returned by the API
+export const tokenResponseSchema = z.object({
+  id: z.string().uuid(),
+  address: z.string().regex(/^0x[0-9a-f]*$/),
+  symbol: z.string().nullable(),
+  name: z.string().nullable(),
+  decimals: z.number().int(),
+  isNative: z.boolean(),
+  chainId: z.string().uuid(),
+  isProtected: z.boolean(),
+  priority: z.number().int(),
+  // Skipped by the price pipeline until resumed
+  isPaused: z.boolean(),
+  // Price set by an operator, not overwritten by the pipeline until unpinned
+  // or pinnedUntil has passed
+  isPinned: z.boolean(),
+  pinnedUntil: z.date().nullable(),
+  refreshIntervalSeconds: z.number().int().positive().nullable(),
+  // Currency of price
+  quote: z.string(),
+  // Decimal string, exact to the token's decimals; null while the quote's
+  // backing token has no price yet
+  price: priceStringSchema.nullable(),
+  lastPriceUpdate: z.date(),
+  // The price has not been updated within the staleness threshold
+  isStale: z.boolean(),
+  staleSince: z.date().nullable(),
+  chain: chainResponseSchema,
+  logo: logoResponseSchema.nullable(),
+});
+
+export const chainWithTokenCountResponseSchema = chainResponseSchema.extend({
+  tokenCount: z.number().int().nonnegative(),
+});
+
+// Types derived from the schemas
+export type ChainResponse = z.infer<typeof chainResponseSchema>;
+export type LogoResponse = z.infer<typeof logoResponseSchema>;
+export type TokenResponse = z.infer<typeof tokenResponseSchema>;
+export type ChainWithTokenCountResponse = z.infer<typeof chainWithTokenCountResponseSchema>;
+
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Helper functions to map entities to validated responses
+export function toChainResponse(chain: Chain): ChainResponse {
+  return chainResponseSchema.parse({
+    id: chain.id,
+    // Postgres returns numeric columns as strings
+    deId: Number(chain.deId),
+    name: chain.name,
+    isEnabled: chain.isEnabled,
+    createdAt: chain.createdAt,
+    updatedAt: chain.updatedAt,
+  });
+}
+
+export function toLogoResponse(logo: Logo): LogoResponse {
+  return logoResponseSchema.parse({
+    id: logo.id,
+    bigRelativePath: logo.bigRelativePath,
+    smallRelativePath: logo.smallRelativePath,
+    thumbRelativePath: logo.thumbRelativePath,
+  });
+}
+
+// Takes the price separately, since it may be in a quote other than the base
+// quote of token.price
+export function toTokenResponse(token: Token, quote: string, price: Price | null): TokenResponse {
+  return tokenResponseSchema.parse({
+    id: token.id,
+    address: `0x${token.address.toString('hex')}`,
+    symbol: token.symbol ?? null,
+    name: token.name ?? null,
+    decimals: token.decimals,
+    isNative: token.isNative,
+    chainId: token.chainId,
+    isProtected: token.isProtected,
+    priority: token.priority,
+    isPaused: token.isPaused,
+    isPinned: token.isPinned,
+    pinnedUntil: token.pinnedUntil ?? null,
+    refreshIntervalSeconds: token.refreshIntervalSeconds ?? null,
+    quote,
+    price: price ? formatPrice(price) : null,
+    lastPriceUpdate: token.lastPriceUpdate,
+    isStale: Boolean(token.staleSince),
+    staleSince: token.staleSince ?? null,
+    chain: toChainResponse(token.chain),
+    logo: token.logo ? toLogoResponse(token.logo) : null,
+  });
+}
+
+export function toChainWithTokenCountResponse(
+  chain: Chain,
+  tokenCount: number,
+): ChainWithTokenCountResponse {
+  return chainWithTokenCountResponseSchema.parse({
+    ...toChainResponse(chain),
+    tokenCount,
+  });
+}
@@ -1,8 +1,22 @@
-import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, OneToOne, JoinColumn } from 'typeorm';
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  OneToOne,
+  JoinColumn,
+  DeleteDateColumn,
+  Index,
+} from 'typeorm';
 import { Chain } from './chain.entity';
 import { Logo } from './logo.entity';
+import { Price, priceTransformer } from '../common/price-decimal';
 
 @Entity('tokens')
+@Index('UQ_tokens_chainId_address', ['chainId', 'address'], {
+  unique: true,
+  where: '"deletedAt" IS NULL',
+})
 export class Token {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
@@ -10,11 +24,11 @@ export class Token {
   @Column({ type: 'bytea' })
   address!: Buffer;
 
-  @Column({ nullable: true })
-  symbol!: string;
+  @Column({ type: 'varchar', nullable: true })
+  symbol!: string | null;
 
-  @Column({ nullable: true })
-  name!: string;
+  @Column({ type: 'varchar', nullable: true })
+  name!: string | null;
 
   @Column({ type: 'smallint', default: 0 })
   decimals!: number;
@@ -34,6 +48,22 @@ export class Token {
   @Column({ default: 0 })
   priority!: number;
 
+  // Paused tokens are skipped by the price pipeline
+  @Column({ default: false })
+  isPaused!: boolean;
+
+  // Price pinned by an operator; the pipeline does not overwrite it until it
+  // is unpinned or pinnedUntil (if set) has passed
+  @Column({ default: false })
+  isPinned!: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  pinnedUntil!: Date | null;
+
+  // Overrides the refresh interval of the token's priority tier
+  @Column({ type: 'integer', nullable: true })
+  refreshIntervalSeconds!: number | null;
+
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   timestamp!: Date;
 
@@ -54,13 +84,18 @@ export class Token {
     precision: 28,
     scale: 18,
     default: 0,
-    transformer: {
-      to: (value: number) => value,
-      from: (value: string) => parseFloat(value),
-    },
+    transformer: priceTransformer,
   })
-  price!: number;
+  price!: Price;
 
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   lastPriceUpdate!: Date;
+
+  // When the staleness watchdog found the price too old; null while fresh
+  @Column({ type: 'timestamp', nullable: true })
+  staleSince!: Date | null;
+
+  // Set when the token is deleted through the admin API
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt!: Date | null;
 }
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { priceInputSchema } from './price.schema';
 
 // Zod schema for token validation
 export const tokenSchema = z.object({
@@ -13,22 +14,22 @@ export const tokenSchema = z.object({
   lastUpdateAuthor: z.string().nullable().optional(),
   priority: z.number().int().default(0),
   timestamp: z.date().default(() => new Date()),
-  
+
   // Denormalized chain data
   chain_Id: z.string().uuid(),
   chain_DeId: z.number(),
   chain_Name: z.string(),
   chain_IsEnabled: z.boolean().default(true),
-  
+
   // Denormalized logo data
   logo_Id: z.string().uuid(),
   logo_TokenId: z.string().uuid().nullable().optional(),
   logo_BigRelativePath: z.string(),
   logo_SmallRelativePath: z.string(),
   logo_ThumbRelativePath: z.string(),
-  
-  price: z.number().nonnegative().default(0),
-  lastPriceUpdate: z.date().default(() => new Date())
+
+  price: priceInputSchema.default(0),
+  lastPriceUpdate: z.date().default(() => new Date()),
 });
 
 // Type derived from the schema
@@ -0,0 +1,218 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, EntityManager, Repository } from 'typeorm';
+import {
+  CANDLE_RESOLUTIONS,
+  CandleResolution,
+  TokenPriceCandle,
+} from '../models/token-price-candle.entity';
+import { TokenPriceHistory } from '../models/token-price-history.entity';
+import { parseDurationSeconds } from '../common/duration';
+import { Price, formatPrice, toPrice } from '../common/price-decimal';
+
+export interface Candle {
+  tokenId: string;
+  resolution: CandleResolution;
+  openTime: Date;
+  open: Price;
+  high: Price;
+  low: Price;
+  close: Price;
+}
+
+interface CandleRow {
+  tokenId: string;
+  resolution: CandleResolution;
+  openTime: Date;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+}
+
+// Upper bound on candles returned by a single query
+export const MAX_CANDLES = 5000;
+
+// Candles written per INSERT when rebuilding
+const REBUILD_INSERT_CHUNK = 1000;
+
+@Injectable()
+export class CandleAggregatorService {
+  private readonly logger = new Logger(CandleAggregatorService.name);
+
+  constructor(
+    @InjectRepository(TokenPriceCandle)
+    private readonly candleRepository: Repository<TokenPriceCandle>,
+  ) {}
+
+  static bucketStart(timestamp: Date, resolution: CandleResolution): Date {
+    const stepMs = parseDurationSeconds(resolution) * 1000;
+    return new Date(Math.floor(timestamp.getTime() / stepMs) * stepMs);
+  }
+
+  // Folds a new price into the open candle of every resolution; callers pass
+  // the manager of their open transaction so candles commit with the price
+  async recordPrice(
+    manager: EntityManager,
+    tokenId: string,
+    price: Price,
+    timestamp: Date,
+  ): Promise<Candle[]> {
+    const candles: Candle[] = [];
+
+    for (const resolution of CANDLE_RESOLUTIONS) {
+      const rows: CandleRow[] = await manager.query(
+        `
+            INSERT INTO "token_price_candles"
+                ("tokenId", "resolution", "openTime", "open", "high", "low", "close", "updatedAt")
+            VALUES ($1, $2, $3, $4, $4, $4, $4, $5)
+            ON CONFLICT ("tokenId", "resolution", "openTime") DO UPDATE SET
+                "high" = GREATEST("token_price_candles"."high", EXCLUDED."high"),
+                "low" = LEAST("token_price_candles"."low", EXCLUDED."low"),
+                "close" = EXCLUDED."close",
+                "updatedAt" = EXCLUDED."updatedAt"
+            RETURNING "tokenId", "resolution", "openTime", "open", "high", "low", "close"
+        `,
+        [
+          tokenId,
+          resolution,
+          CandleAggregatorService.bucketStart(timestamp, resolution),
+          formatPrice(price),
+          timestamp,
+        ],
+      );
+      candles.push(this.toCandle(rows[0]));
+    }
+
+    return candles;
+  }
+
+  async getCandles(
+    tokenId: string,
+    resolution: CandleResolution,
+    from: Date,
+    to: Date,
+  ): Promise<Candle[]> {
+    const rows = await this.candleRepository.find({
+      where: {
+        tokenId,
+        resolution,
+        openTime: Between(CandleAggregatorService.bucketStart(from, resolution), to),
+      },
+      order: { openTime: 'ASC' },
+      take: MAX_CANDLES,
+    });
+
+    return rows.map(row => ({
+      tokenId: row.tokenId,
+      resolution: row.resolution,
+      openTime: row.openTime,
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+    }));
+  }
+
+  // Recomputes candles from stored price history, replacing whatever is stored
+  // for the buckets covering the range. Buckets come from bucketStart, like
+  // the live candles, so both agree whatever the server's time zone.
+  async rebuild(
+    tokenId: string,
+    from: Date,
+    to: Date,
+    resolutions: readonly CandleResolution[] = CANDLE_RESOLUTIONS,
+  ): Promise<number> {
+    let rebuilt = 0;
+
+    await this.candleRepository.manager.transaction(async manager => {
+      const ranges = resolutions.map(resolution => {
+        const stepMs = parseDurationSeconds(resolution) * 1000;
+        const start = CandleAggregatorService.bucketStart(from, resolution);
+        const end = new Date(
+          CandleAggregatorService.bucketStart(to, resolution).getTime() + stepMs,
+        );
+        return { resolution, start, end };
+      });
+      if (ranges.length === 0) {
+        return;
+      }
+
+      // The coarsest resolution covers every finer one
+      const history = await manager.find(TokenPriceHistory, {
+        where: {
+          tokenId,
+          recordedAt: Between(
+            new Date(Math.min(...ranges.map(range => range.start.getTime()))),
+            new Date(Math.max(...ranges.map(range => range.end.getTime())) - 1),
+          ),
+        },
+        order: { recordedAt: 'ASC' },
+      });
+
+      for (const { resolution, start, end } of ranges) {
+        await manager.delete(TokenPriceCandle, {
+          tokenId,
+          resolution,
+          openTime: Between(start, new Date(end.getTime() - 1)),
+        });
+
+        const candles = CandleAggregatorService.foldCandles(
+          tokenId,
+          resolution,
+          history.filter(point => point.recordedAt >= start && point.recordedAt < end),
+        );
+        for (let i = 0; i < candles.length; i += REBUILD_INSERT_CHUNK) {
+          await manager.insert(TokenPriceCandle, candles.slice(i, i + REBUILD_INSERT_CHUNK));
+        }
+        rebuilt += candles.length;
+      }
+    });
+
+    this.logger.log(`Rebuilt ${rebuilt} candle(s) for token ${tokenId}`);
+    return rebuilt;
+  }
+
+  // Folds price points, in time order, into one candle per bucket
+  static foldCandles(
+    tokenId: string,
+    resolution: CandleResolution,
+    points: Array<{ price: Price; recordedAt: Date }>,
+  ): Candle[] {
+    const candles = new Map<number, Candle>();
+
+    for (const { price, recordedAt } of points) {
+      const openTime = CandleAggregatorService.bucketStart(recordedAt, resolution);
+      const candle = candles.get(openTime.getTime());
+      if (!candle) {
+        candles.set(openTime.getTime(), {
+          tokenId,
+          resolution,
+          openTime,
+          open: price,
+          high: price,
+          low: price,
+          close: price,
+        });
+        continue;
+      }
+      candle.high = price.gt(candle.high) ? price : candle.high;
+      candle.low = price.lt(candle.low) ? price : candle.low;
+      candle.close = price;
+    }
+
+    return [...candles.values()];
+  }
+
+  private toCandle(row: CandleRow): Candle {
+    return {
+      tokenId: row.tokenId,
+      resolution: row.resolution,
+      openTime: row.openTime,
+      open: toPrice(row.open),
+      high: toPrice(row.high),
+      low: toPrice(row.low),
+      close: toPrice(row.close),
+    };
+  }
+}
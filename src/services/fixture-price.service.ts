@@ -0,0 +1,65 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { PriceProvider, PriceQuery } from './price-provider';
+import { Price } from '../common/price-decimal';
+import { priceInputSchema } from '../models/price.schema';
+
+// Zod schema for the fixture file. Prices are looked up by
+// "<chain deId>:<hex address>" first, then by upper-case symbol. Prices may
+// be decimal strings, to be exact, or numbers.
+const priceFixtureSchema = z.object({
+  tokens: z.record(priceInputSchema).default({}),
+  symbols: z.record(priceInputSchema).default({}),
+});
+
+type PriceFixture = z.infer<typeof priceFixtureSchema>;
+
+@Injectable()
+export class FixturePriceService implements PriceProvider {
+  readonly name = 'fixture';
+  private readonly logger = new Logger(FixturePriceService.name);
+  private readonly fixturePath: string;
+  private fixture?: Promise<PriceFixture>;
+
+  constructor() {
+    this.fixturePath = process.env.PRICE_FIXTURE_PATH || 'fixtures/prices.json';
+  }
+
+  async getPrice(query: PriceQuery): Promise<Price> {
+    const fixture = await this.loadFixture();
+
+    const byAddress = fixture.tokens[`${query.chainDeId}:${query.address.toLowerCase()}`];
+    if (byAddress !== undefined) {
+      return byAddress;
+    }
+
+    const bySymbol = query.symbol ? fixture.symbols[query.symbol.toUpperCase()] : undefined;
+    if (bySymbol !== undefined) {
+      return bySymbol;
+    }
+
+    throw new Error(
+      `No fixture price for token ${query.symbol || query.tokenId} (${query.chainDeId}:${
+        query.address
+      })`,
+    );
+  }
+
+  private loadFixture(): Promise<PriceFixture> {
+    if (!this.fixture) {
+      this.fixture = readFile(this.fixturePath, 'utf8').then(content => {
+        const fixture = priceFixtureSchema.parse(JSON.parse(content));
+        this.logger.log(`Loaded price fixture from ${this.fixturePath}`);
+        return fixture;
+      });
+
+      // Allow a retry on the next call if the file could not be read
+      this.fixture.catch(() => {
+        this.fixture = undefined;
+      });
+    }
+
+    return this.fixture;
+  }
+}
@@ -0,0 +1,115 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { withTimeout } from '../common/concurrency';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+import { TokenPriceUpdateService } from './token-price-update.service';
+
+// Probes must answer quickly even when a dependency hangs
+const CHECK_TIMEOUT_MS = 2000;
+
+export interface HealthCheck {
+  name: string;
+  healthy: boolean;
+  detail?: string;
+}
+
+export interface ProbeResult {
+  status: 'up' | 'down';
+  checks: HealthCheck[];
+}
+
+// Liveness and readiness probes for the orchestrator. Liveness only fails when
+// a restart would help, i.e. the price loop is wedged; readiness also fails
+// while a dependency is down, migrations are pending or the service is
+// shutting down.
+@Injectable()
+export class HealthService {
+  private readonly maxCycleAgeMs: number;
+  // Pending migrations only appear with a new deployment, so once the schema
+  // is up to date there is no need to ask again
+  private migrationsApplied = false;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly kafkaProducer: KafkaProducerService,
+    private readonly tokenPriceUpdateService: TokenPriceUpdateService,
+  ) {
+    const intervalSeconds = parseFloat(process.env.PRICE_UPDATE_INTERVAL_SECONDS || '5');
+    const staleIntervals = parseFloat(process.env.HEALTH_STALE_CYCLE_INTERVALS || '3');
+    this.maxCycleAgeMs = intervalSeconds * staleIntervals * 1000;
+  }
+
+  checkLiveness(): ProbeResult {
+    return this.toResult([this.checkPriceLoop()]);
+  }
+
+  async checkReadiness(): Promise<ProbeResult> {
+    const { isStopping } = this.tokenPriceUpdateService.getStatus();
+
+    return this.toResult([
+      { name: 'shutdown', healthy: !isStopping, detail: isStopping ? 'stopping' : undefined },
+      await this.checkDatabase(),
+      await this.checkMigrations(),
+      {
+        name: 'kafka',
+        healthy: this.kafkaProducer.isConnected,
+        detail: this.kafkaProducer.isConnected ? undefined : 'producer is not connected',
+      },
+      this.checkPriceLoop(),
+    ]);
+  }
+
+  private async checkDatabase(): Promise<HealthCheck> {
+    try {
+      await withTimeout(this.dataSource.query('SELECT 1'), CHECK_TIMEOUT_MS, 'Database check');
+      return { name: 'database', healthy: true };
+    } catch (error) {
+      return { name: 'database', healthy: false, detail: (error as Error).message };
+    }
+  }
+
+  private async checkMigrations(): Promise<HealthCheck> {
+    if (!this.migrationsApplied) {
+      try {
+        const pending = await withTimeout(
+          this.dataSource.showMigrations(),
+          CHECK_TIMEOUT_MS,
+          'Migration check',
+        );
+        if (pending) {
+          return { name: 'migrations', healthy: false, detail: 'migrations are pending' };
+        }
+        this.migrationsApplied = true;
+      } catch (error) {
+        return { name: 'migrations', healthy: false, detail: (error as Error).message };
+      }
+    }
+
+    return { name: 'migrations', healthy: true };
+  }
+
+  // Only checked while this instance runs the loop; followers and instances
+  // consuming the Kafka price feed have no cycles to complete
+  private checkPriceLoop(): HealthCheck {
+    const { isRunning, runningSince, lastCycleAt } = this.tokenPriceUpdateService.getStatus();
+    if (!isRunning || !runningSince) {
+      return { name: 'priceLoop', healthy: true, detail: 'not running on this instance' };
+    }
+
+    // Cycles finished before the loop was last started do not count
+    const since = lastCycleAt && lastCycleAt > runningSince ? lastCycleAt : runningSince;
+    const ageMs = Date.now() - since.getTime();
+    if (ageMs > this.maxCycleAgeMs) {
+      return {
+        name: 'priceLoop',
+        healthy: false,
+        detail: `no cycle completed in the last ${Math.round(ageMs / 1000)}s`,
+      };
+    }
+    return { name: 'priceLoop', healthy: true };
+  }
+
+  private toResult(checks: HealthCheck[]): ProbeResult {
+    return { status: checks.every(check => check.healthy) ? 'up' : 'down', checks };
+  }
+}
@@ -0,0 +1,160 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { DataSource, QueryRunner } from 'typeorm';
+
+export type LeadershipListener = (isLeader: boolean) => void | Promise<void>;
+
+// Elects one instance to run the price update scheduler, using a Postgres
+// session-level advisory lock held on a dedicated connection. The leader
+// renews its lease by checking that the connection still holds the lock; if
+// it has lost it, it steps down. Followers keep trying to take the lock, and
+// since Postgres releases it when the leader's session ends, one of them takes
+// over automatically when the leader dies.
+@Injectable()
+export class LeaderElectionService implements OnModuleDestroy {
+  private readonly logger = new Logger(LeaderElectionService.name);
+  private readonly enabled: boolean;
+  private readonly lockKey: number;
+  private readonly renewIntervalMs: number;
+  private readonly listeners: LeadershipListener[] = [];
+  private queryRunner?: QueryRunner;
+  private timer?: NodeJS.Timeout;
+  private tickPromise?: Promise<void>;
+  private leader = false;
+
+  constructor(private readonly dataSource: DataSource) {
+    const mode = process.env.LEADER_ELECTION || 'lock';
+    if (!['lock', 'none'].includes(mode)) {
+      throw new Error(`Unknown leader election mode "${mode}", expected one of: lock, none`);
+    }
+    this.enabled = mode === 'lock';
+    this.lockKey = parseInt(process.env.LEADER_ELECTION_LOCK_KEY || '724519', 10);
+    this.renewIntervalMs = parseFloat(process.env.LEADER_ELECTION_RENEW_SECONDS || '5') * 1000;
+  }
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  onLeadershipChange(listener: LeadershipListener): void {
+    this.listeners.push(listener);
+  }
+
+  start(): void {
+    if (!this.enabled) {
+      // Single instance deployments lead unconditionally
+      void this.setLeader(true);
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), this.renewIntervalMs);
+    void this.tick();
+  }
+
+  // Runs one renewal or acquisition attempt; never overlaps with another
+  private tick(): Promise<void> {
+    if (!this.tickPromise) {
+      this.tickPromise = (this.leader ? this.renew() : this.tryAcquire())
+        .catch((error: Error) => {
+          this.logger.error(`Leader election failed: ${error.message}`, error.stack);
+        })
+        .finally(() => {
+          this.tickPromise = undefined;
+        });
+    }
+    return this.tickPromise;
+  }
+
+  private async tryAcquire(): Promise<void> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    try {
+      await queryRunner.connect();
+      const [{ acquired }] = await queryRunner.query(
+        'SELECT pg_try_advisory_lock($1) AS acquired',
+        [this.lockKey],
+      );
+      if (!acquired) {
+        await queryRunner.release();
+        return;
+      }
+    } catch (error) {
+      await queryRunner.release().catch(() => undefined);
+      throw error;
+    }
+
+    this.queryRunner = queryRunner;
+    this.logger.log(`Acquired leadership (advisory lock ${this.lockKey})`);
+    await this.setLeader(true);
+  }
+
+  private async renew(): Promise<void> {
+    try {
+      const rows = await this.queryRunner?.query(
+        `
+            SELECT 1
+            FROM pg_locks
+            WHERE locktype = 'advisory'
+              AND pid = pg_backend_pid()
+              AND ((classid::bigint << 32) | objid::bigint) = $1
+              AND objsubid = 1
+              AND granted
+        `,
+        [this.lockKey],
+      );
+      if (rows?.length) {
+        return;
+      }
+      this.logger.warn('Advisory lock is no longer held, stepping down');
+    } catch (error) {
+      this.logger.warn(`Lost the leader connection, stepping down: ${(error as Error).message}`);
+    }
+
+    await this.setLeader(false);
+    await this.releaseLock();
+  }
+
+  private async releaseLock(): Promise<void> {
+    const queryRunner = this.queryRunner;
+    this.queryRunner = undefined;
+    if (!queryRunner) {
+      return;
+    }
+
+    try {
+      await queryRunner.query('SELECT pg_advisory_unlock($1)', [this.lockKey]);
+    } catch {
+      // The session is gone, and the lock with it
+    } finally {
+      await queryRunner.release().catch(() => undefined);
+    }
+  }
+
+  private async setLeader(isLeader: boolean): Promise<void> {
+    this.leader = isLeader;
+    for (const listener of this.listeners) {
+      try {
+        await listener(isLeader);
+      } catch (error) {
+        this.logger.error(
+          `Leadership listener failed: ${(error as Error).message}`,
+          (error as Error).stack,
+        );
+      }
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.tickPromise;
+
+    // Stop leading before handing over, so two instances never run at once,
+    // then release the lock right away instead of waiting for the session to end
+    if (this.leader) {
+      await this.setLeader(false);
+      await this.releaseLock();
+      this.logger.log('Released leadership');
+    }
+  }
+}
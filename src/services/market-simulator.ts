@@ -0,0 +1,99 @@
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// Annualized drift and volatility of a simulated token
+export interface SimulationParams {
+  drift: number;
+  volatility: number;
+}
+
+export interface ShockParams {
+  // Chance of a shock on any single step
+  probability: number;
+  // Relative size of a shock, e.g. 0.1 moves the price by 10% up or down
+  magnitude: number;
+}
+
+export interface MarketSimulatorOptions {
+  seed: number;
+  stepSeconds: number;
+  defaultParams: SimulationParams;
+  // Keyed by token id or upper-case symbol
+  tokenParams: Map<string, SimulationParams>;
+  shock: ShockParams;
+}
+
+// mulberry32: small, fast and good enough for simulated prices
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a, used to derive an independent seed for every token
+function hashString(value: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// Simulates prices with geometric Brownian motion plus occasional shocks.
+// Every token gets its own random stream derived from the seed, so a token's
+// path does not depend on the order in which tokens are priced.
+export class MarketSimulator {
+  private readonly streams = new Map<string, () => number>();
+
+  constructor(private readonly options: MarketSimulatorOptions) {}
+
+  next(tokenId: string, symbol: string | null, currentPrice: number): number {
+    const random = this.getStream(tokenId);
+    const { drift, volatility } = this.getParams(tokenId, symbol);
+
+    // Tokens without a price yet start somewhere between 1 and 1000
+    const price = currentPrice > 0 ? currentPrice : 1 + random() * 999;
+
+    const dt = this.options.stepSeconds / SECONDS_PER_YEAR;
+    const z = this.nextGaussian(random);
+    let nextPrice =
+      price *
+      Math.exp((drift - (volatility * volatility) / 2) * dt + volatility * Math.sqrt(dt) * z);
+
+    if (random() < this.options.shock.probability) {
+      const direction = random() < 0.5 ? -1 : 1;
+      nextPrice *= 1 + direction * this.options.shock.magnitude;
+    }
+
+    return nextPrice;
+  }
+
+  private getParams(tokenId: string, symbol: string | null): SimulationParams {
+    return (
+      this.options.tokenParams.get(tokenId.toUpperCase()) ??
+      (symbol ? this.options.tokenParams.get(symbol.toUpperCase()) : undefined) ??
+      this.options.defaultParams
+    );
+  }
+
+  private getStream(tokenId: string): () => number {
+    let stream = this.streams.get(tokenId);
+    if (!stream) {
+      stream = createSeededRandom(hashString(tokenId, this.options.seed));
+      this.streams.set(tokenId, stream);
+    }
+    return stream;
+  }
+
+  // Box-Muller transform
+  private nextGaussian(random: () => number): number {
+    const u1 = 1 - random();
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+}
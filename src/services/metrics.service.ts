@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { Repository } from 'typeorm';
+import { Token } from '../models/token.entity';
+
+// Holds the Prometheus metrics of the price pipeline. Services record into the
+// metrics below; everything is served in text format on GET /metrics.
+@Injectable()
+export class MetricsService {
+  private readonly logger = new Logger(MetricsService.name);
+  // Not the prom-client global registry, so several application instances
+  // (e.g. in tests) do not clash over metric names
+  readonly registry = new Registry();
+
+  readonly cycleDuration = new Histogram({
+    name: 'token_price_update_cycle_duration_seconds',
+    help: 'Duration of price update cycles that had tokens due',
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [this.registry],
+  });
+
+  readonly cycleTokens = new Histogram({
+    name: 'token_price_update_cycle_tokens',
+    help: 'Number of tokens processed per price update cycle',
+    buckets: [1, 5, 10, 25, 50, 100, 250, 500, 1000],
+    registers: [this.registry],
+  });
+
+  readonly updateFailures = new Counter({
+    name: 'token_price_update_failures_total',
+    help: 'Token price updates that failed, by reason',
+    labelNames: ['reason'] as const,
+    registers: [this.registry],
+  });
+
+  readonly cycleLag = new Histogram({
+    name: 'token_price_update_cycle_lag_seconds',
+    help: 'How long after the earliest due token was due its update cycle started',
+    buckets: [0.01, 0.05, 0.1, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [this.registry],
+  });
+
+  readonly providerLatency = new Histogram({
+    name: 'token_price_provider_request_duration_seconds',
+    help: 'Latency of price provider requests, by provider and outcome',
+    labelNames: ['provider', 'outcome'] as const,
+    buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
+
+  readonly kafkaSendLatency = new Histogram({
+    name: 'token_price_kafka_send_duration_seconds',
+    help: 'Latency of Kafka send attempts, by operation and outcome',
+    labelNames: ['operation', 'outcome'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [this.registry],
+  });
+
+  readonly kafkaSendRetries = new Counter({
+    name: 'token_price_kafka_send_retries_total',
+    help: 'Kafka sends retried after a failed attempt, by operation',
+    labelNames: ['operation'] as const,
+    registers: [this.registry],
+  });
+
+  constructor(
+    @InjectRepository(Token)
+    tokenRepository: Repository<Token>,
+  ) {
+    collectDefaultMetrics({ register: this.registry });
+
+    // Read at scrape time so the age keeps growing while a token is not updated
+    const logger = this.logger;
+    new Gauge({
+      name: 'token_price_last_update_age_seconds',
+      help: 'Seconds since the price of each token was last updated',
+      labelNames: ['token_id', 'symbol'] as const,
+      registers: [this.registry],
+      async collect() {
+        this.reset();
+        try {
+          const tokens = await tokenRepository.find({
+            select: { id: true, symbol: true, lastPriceUpdate: true },
+            loadEagerRelations: false,
+          });
+          const now = Date.now();
+          for (const token of tokens) {
+            this.set(
+              { token_id: token.id, symbol: token.symbol ?? '' },
+              (now - token.lastPriceUpdate.getTime()) / 1000,
+            );
+          }
+        } catch (error) {
+          logger.warn(`Failed to collect token update ages: ${(error as Error).message}`);
+        }
+      },
+    });
+  }
+
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
@@ -1,8 +1,57 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import { PriceProvider, PriceQuery } from './price-provider';
+import { MarketSimulator, SimulationParams } from './market-simulator';
+import { parseKeyValueList } from '../common/key-value-list';
+import { Price, toPrice } from '../common/price-decimal';
+
+// "gbm" simulates a market from the token's current price, "random" returns
+// uncorrelated random prices
+export type MockPriceMode = 'gbm' | 'random';
 
 @Injectable()
-export class MockPriceService {
-  async getRandomPriceForToken(): Promise<number> {
+export class MockPriceService implements PriceProvider {
+  readonly name = 'mock';
+  private readonly logger = new Logger(MockPriceService.name);
+  private readonly mode: MockPriceMode;
+  private readonly simulator: MarketSimulator;
+
+  constructor() {
+    this.mode = process.env.MOCK_PRICE_MODE === 'random' ? 'random' : 'gbm';
+
+    const seed = process.env.MOCK_PRICE_SEED
+      ? parseInt(process.env.MOCK_PRICE_SEED, 10)
+      : Date.now();
+
+    const tokenParams = new Map<string, SimulationParams>();
+    parseKeyValueList(process.env.MOCK_PRICE_TOKEN_PARAMS).forEach((value, token) => {
+      const [drift, volatility] = value.split(':').map(parseFloat);
+      if (!Number.isFinite(drift) || !Number.isFinite(volatility)) {
+        throw new Error(`Invalid MOCK_PRICE_TOKEN_PARAMS entry for ${token}: ${value}`);
+      }
+      tokenParams.set(token.toUpperCase(), { drift, volatility });
+    });
+
+    this.simulator = new MarketSimulator({
+      seed,
+      stepSeconds: parseFloat(
+        process.env.MOCK_PRICE_STEP_SECONDS || process.env.PRICE_UPDATE_INTERVAL_SECONDS || '5',
+      ),
+      defaultParams: {
+        drift: parseFloat(process.env.MOCK_PRICE_DRIFT || '0'),
+        volatility: parseFloat(process.env.MOCK_PRICE_VOLATILITY || '0.8'),
+      },
+      tokenParams,
+      shock: {
+        probability: parseFloat(process.env.MOCK_PRICE_SHOCK_PROBABILITY || '0'),
+        magnitude: parseFloat(process.env.MOCK_PRICE_SHOCK_MAGNITUDE || '0.1'),
+      },
+    });
+
+    this.logger.log(`Mock prices in ${this.mode} mode (seed: ${seed})`);
+  }
+
+  // Simulated prices need no exactness, so the simulation runs on numbers
+  async getPrice(query: PriceQuery): Promise<Price> {
     // Simulate API call delay
     await new Promise<void>(resolve => {
       setTimeout(() => {
@@ -10,10 +59,16 @@ export class MockPriceService {
       }, this.getRandomInt(50, 200));
     });
 
+    if (this.mode === 'gbm') {
+      return toPrice(
+        this.simulator.next(query.tokenId, query.symbol, query.currentPrice.toNumber()),
+      );
+    }
+
     const basePrice = this.getRandomInt(1, 100000);
     const randomFactor = Math.random() * 10;
 
-    return basePrice * randomFactor;
+    return toPrice(basePrice * randomFactor);
   }
 
   private getRandomInt(min: number, max: number): number {
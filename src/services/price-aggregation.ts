@@ -0,0 +1,125 @@
+import { Price, ZERO_PRICE } from '../common/price-decimal';
+
+export const AGGREGATION_METHODS = ['median', 'trimmed-mean', 'weighted-mean'] as const;
+
+export type AggregationMethod = (typeof AGGREGATION_METHODS)[number];
+
+export interface SourcePrice {
+  source: string;
+  price: Price;
+  weight: number;
+}
+
+export interface RejectedSourcePrice extends SourcePrice {
+  deviationBps: number;
+}
+
+export interface AggregationOptions {
+  method: AggregationMethod;
+  // Sources further than this from the median are dropped; 0 disables the check
+  maxDeviationBps: number;
+  // Share of sources dropped from each end by the trimmed mean
+  trimRatio: number;
+  minSources: number;
+}
+
+// Prices are aggregated exactly; means keep more digits than a stored price,
+// the result is rounded by the caller
+export interface AggregationResult {
+  price: Price;
+  sources: string[];
+  rejected: RejectedSourcePrice[];
+}
+
+function sortPrices(values: Price[]): Price[] {
+  return [...values].sort((a, b) => a.comparedTo(b));
+}
+
+export function median(values: Price[]): Price {
+  if (values.length === 0) {
+    throw new Error('Cannot compute the median of no values');
+  }
+
+  const sorted = sortPrices(values);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0 ? sorted[middle - 1].plus(sorted[middle]).div(2) : sorted[middle];
+}
+
+export function trimmedMean(values: Price[], trimRatio: number): Price {
+  const sorted = sortPrices(values);
+  const trim = Math.floor(sorted.length * trimRatio);
+  const kept = sorted.slice(trim, sorted.length - trim);
+
+  // Trimming never drops every value
+  const used = kept.length > 0 ? kept : sorted;
+  return used.reduce((sum, value) => sum.plus(value), ZERO_PRICE).div(used.length);
+}
+
+export function weightedMean(prices: SourcePrice[]): Price {
+  const totalWeight = prices.reduce((sum, { weight }) => sum + weight, 0);
+  if (totalWeight <= 0) {
+    throw new Error('Cannot compute a weighted mean with no positive weights');
+  }
+
+  return prices
+    .reduce((sum, { price, weight }) => sum.plus(price.times(weight)), ZERO_PRICE)
+    .div(totalWeight);
+}
+
+// Drops invalid prices and outliers around the median, then aggregates
+// whatever is left with the configured method
+export function aggregatePrices(
+  prices: SourcePrice[],
+  options: AggregationOptions,
+): AggregationResult {
+  const valid = prices.filter(({ price }) => price.isFinite() && price.gt(0));
+  if (valid.length === 0) {
+    throw new Error('No valid source prices to aggregate');
+  }
+
+  const reference = median(valid.map(({ price }) => price));
+  const accepted: SourcePrice[] = [];
+  const rejected: RejectedSourcePrice[] = [];
+
+  for (const sourcePrice of valid) {
+    const deviationBps = sourcePrice.price
+      .minus(reference)
+      .abs()
+      .div(reference)
+      .times(10000)
+      .toNumber();
+    if (options.maxDeviationBps > 0 && deviationBps > options.maxDeviationBps) {
+      rejected.push({ ...sourcePrice, deviationBps });
+    } else {
+      accepted.push(sourcePrice);
+    }
+  }
+
+  if (accepted.length < Math.max(options.minSources, 1)) {
+    throw new Error(
+      `Only ${accepted.length} of ${prices.length} source(s) agree within ` +
+        `${options.maxDeviationBps}bps, at least ${options.minSources} required`,
+    );
+  }
+
+  const acceptedPrices = accepted.map(({ price }) => price);
+  let price: Price;
+  switch (options.method) {
+    case 'median':
+      price = median(acceptedPrices);
+      break;
+    case 'trimmed-mean':
+      price = trimmedMean(acceptedPrices, options.trimRatio);
+      break;
+    case 'weighted-mean':
+      price = weightedMean(accepted);
+      break;
+  }
+
+  return {
+    price,
+    sources: accepted.map(({ source }) => source),
+    rejected,
+  };
+}
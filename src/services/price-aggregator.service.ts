@@ -0,0 +1,125 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PriceProviderRegistry } from './price-provider.registry';
+import { PriceQuery } from './price-provider';
+import {
+  AGGREGATION_METHODS,
+  AggregationMethod,
+  AggregationOptions,
+  AggregationResult,
+  SourcePrice,
+  aggregatePrices,
+} from './price-aggregation';
+import { parseKeyValueList } from '../common/key-value-list';
+import { TokenBucket } from '../common/token-bucket';
+import { CircuitOpenError } from '../common/circuit-breaker';
+import { abortable } from '../common/concurrency';
+import { CircuitBreakerRegistry } from '../common/circuit-breaker.registry';
+import { MetricsService } from './metrics.service';
+import { formatPrice } from '../common/price-decimal';
+
+@Injectable()
+export class PriceAggregatorService {
+  private readonly logger = new Logger(PriceAggregatorService.name);
+  private readonly options: AggregationOptions;
+  private readonly sourceWeights = new Map<string, number>();
+  private readonly rateLimiters = new Map<string, TokenBucket>();
+
+  constructor(
+    private readonly priceProviderRegistry: PriceProviderRegistry,
+    private readonly circuitBreakers: CircuitBreakerRegistry,
+    private readonly metrics: MetricsService,
+  ) {
+    const method = process.env.PRICE_AGGREGATION_METHOD || 'median';
+    if (!AGGREGATION_METHODS.includes(method as AggregationMethod)) {
+      throw new Error(
+        `Unknown price aggregation method "${method}", expected one of: ${AGGREGATION_METHODS.join(
+          ', ',
+        )}`,
+      );
+    }
+
+    this.options = {
+      method: method as AggregationMethod,
+      maxDeviationBps: parseInt(process.env.PRICE_MAX_DEVIATION_BPS || '500', 10),
+      trimRatio: parseFloat(process.env.PRICE_TRIM_RATIO || '0.2'),
+      minSources: parseInt(process.env.PRICE_MIN_SOURCES || '1', 10),
+    };
+
+    parseKeyValueList(process.env.PRICE_SOURCE_WEIGHTS).forEach((weight, source) => {
+      this.sourceWeights.set(source, parseFloat(weight));
+    });
+
+    // "<rate per second>" or "<rate per second>:<burst>" per source
+    parseKeyValueList(process.env.PRICE_PROVIDER_RATE_LIMITS).forEach((limit, source) => {
+      const [rate, burst] = limit.split(':').map(value => parseFloat(value));
+      this.rateLimiters.set(source, new TokenBucket(rate, burst ?? rate));
+    });
+  }
+
+  // Queries every provider configured for the token and combines the answers.
+  // Once the signal is aborted, calls still waiting for the rate limit are
+  // dropped and calls in flight are abandoned, which counts as a failure
+  // towards the provider's circuit.
+  async getPrice(query: PriceQuery, signal?: AbortSignal): Promise<AggregationResult> {
+    const providers = this.priceProviderRegistry.resolveAll(query);
+    const label = query.symbol || query.tokenId;
+
+    const results = await Promise.allSettled(
+      providers.map(async provider => {
+        const breaker = this.circuitBreakers.get(`price-provider:${provider.name}`);
+        // An open circuit fails fast without using up the rate limit; waiting
+        // for the rate limit is not held against the provider
+        if (!breaker.canExecute()) {
+          throw new CircuitOpenError(breaker.name);
+        }
+        await this.rateLimiters.get(provider.name)?.acquire(signal);
+
+        return breaker.execute(async () => {
+          // Timed after the rate limiter, so only the provider's own latency counts
+          const endTimer = this.metrics.providerLatency.startTimer({ provider: provider.name });
+          try {
+            const price = await abortable(provider.getPrice(query, signal), signal);
+            endTimer({ outcome: 'success' });
+            return price;
+          } catch (error) {
+            endTimer({ outcome: 'error' });
+            throw error;
+          }
+        });
+      }),
+    );
+
+    const prices: SourcePrice[] = [];
+    results.forEach((result, index) => {
+      const source = providers[index].name;
+      if (result.status === 'fulfilled') {
+        prices.push({ source, price: result.value, weight: this.sourceWeights.get(source) ?? 1 });
+      } else if (!(result.reason instanceof CircuitOpenError)) {
+        this.logger.warn(`Price source ${source} failed for ${label}: ${result.reason}`);
+      }
+    });
+
+    // Report a single error when every source is known to be down
+    if (
+      results.length > 0 &&
+      results.every(
+        result => result.status === 'rejected' && result.reason instanceof CircuitOpenError,
+      )
+    ) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    const aggregated = aggregatePrices(prices, this.options);
+
+    aggregated.rejected.forEach(rejected => {
+      this.logger.warn(
+        `Rejected ${rejected.source} price ${formatPrice(rejected.price)} for ${label}: ` +
+          `${rejected.deviationBps.toFixed(0)}bps from median exceeds ${
+            this.options.maxDeviationBps
+          }bps`,
+      );
+    });
+
+    return aggregated;
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, EntityManager, Repository } from 'typeorm';
+import { TokenPriceHistory } from '../models/token-price-history.entity';
+import { MAX_SERIES_POINTS, PriceHistoryQuery, PricePoint } from '../models/price-history.schema';
+import { Price, formatPrice, toPrice } from '../common/price-decimal';
+
+// Thrown when a series without a step has more raw price changes than
+// MAX_SERIES_POINTS, rather than returning it cut short
+export class SeriesTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeriesTooLargeError';
+  }
+}
+
+@Injectable()
+export class PriceHistoryService {
+  constructor(
+    @InjectRepository(TokenPriceHistory)
+    private readonly historyRepository: Repository<TokenPriceHistory>,
+  ) {}
+
+  // Records a price change; callers pass the manager of their open transaction
+  async record(
+    manager: EntityManager,
+    tokenId: string,
+    price: Price,
+    recordedAt: Date,
+  ): Promise<void> {
+    await manager.insert(TokenPriceHistory, { tokenId, price, recordedAt });
+  }
+
+  async getSeries(tokenId: string, query: PriceHistoryQuery): Promise<PricePoint[]> {
+    if (query.stepSeconds === null) {
+      const rows = await this.historyRepository.find({
+        where: { tokenId, recordedAt: Between(query.from, query.to) },
+        order: { recordedAt: 'ASC' },
+        // One more than allowed, to tell a full series from a truncated one
+        take: MAX_SERIES_POINTS + 1,
+      });
+      if (rows.length > MAX_SERIES_POINTS) {
+        throw new SeriesTooLargeError(
+          `More than ${MAX_SERIES_POINTS} price changes in range, narrow it or set a step`,
+        );
+      }
+      return rows.map(row => ({ timestamp: row.recordedAt, price: formatPrice(row.price) }));
+    }
+
+    // Bucket by step and keep the last price seen in each bucket
+    const rows: Array<{ bucket: Date; price: string }> = await this.historyRepository.query(
+      `
+            SELECT DISTINCT ON (bucket)
+                to_timestamp(floor(extract(epoch FROM "recordedAt") / $4) * $4) AT TIME ZONE 'UTC' AS bucket,
+                "price"
+            FROM "token_price_history"
+            WHERE "tokenId" = $1 AND "recordedAt" BETWEEN $2 AND $3
+            ORDER BY bucket ASC, "recordedAt" DESC
+        `,
+      [tokenId, query.from, query.to, query.stepSeconds],
+    );
+
+    return rows.map(row => ({ timestamp: row.bucket, price: formatPrice(toPrice(row.price)) }));
+  }
+}
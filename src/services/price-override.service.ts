@@ -0,0 +1,119 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { Token } from '../models/token.entity';
+import { TokenPriceOverride } from '../models/token-price-override.entity';
+import { PriceOverrideListQuery } from '../models/price-override.schema';
+import { TokenPriceUpdateService } from './token-price-update.service';
+import { Price, formatPrice, roundPrice } from '../common/price-decimal';
+
+// Pins and unpins manual token prices. A pinned price is published like any
+// other update, with reason 'override' and its author, and the price pipeline
+// leaves the token alone until it is unpinned or the pin expires. Every pin,
+// unpin and expiry is recorded in token_price_overrides in the same
+// transaction as the change.
+@Injectable()
+export class PriceOverrideService {
+  private readonly logger = new Logger(PriceOverrideService.name);
+
+  constructor(
+    @InjectRepository(TokenPriceOverride)
+    private readonly overrideRepository: Repository<TokenPriceOverride>,
+    private readonly tokenPriceUpdateService: TokenPriceUpdateService,
+  ) {}
+
+  // Replaces any pin the token already has
+  async pin(
+    token: Token,
+    price: Price,
+    options: { expiresAt: Date | null; reason: string | null; author: string },
+  ): Promise<void> {
+    const { expiresAt, reason, author } = options;
+    const previousPrice = token.price;
+    const newPrice = roundPrice(price, token.decimals);
+
+    token.isPinned = true;
+    token.pinnedUntil = expiresAt;
+    token.lastUpdateAuthor = author;
+    const written = await this.tokenPriceUpdateService.writePrice(
+      token,
+      newPrice,
+      { sources: ['manual'], reason: 'override', author, now: new Date() },
+      async manager => {
+        await manager.insert(TokenPriceOverride, {
+          tokenId: token.id,
+          action: 'pin',
+          price: newPrice,
+          previousPrice,
+          expiresAt,
+          author,
+          reason,
+        });
+      },
+    );
+
+    // The token was deleted meanwhile
+    if (!written) {
+      return;
+    }
+
+    const until = expiresAt ? ` until ${expiresAt.toISOString()}` : '';
+    this.logger.warn(
+      `${author} pinned price of ${token.symbol || token.id} at ${formatPrice(newPrice)}${until}`,
+    );
+  }
+
+  // Returns false if the token was not pinned; the pipeline prices it again
+  // from its next scheduled refresh
+  async unpin(token: Token, author: string): Promise<boolean> {
+    const changed = await this.overrideRepository.manager.transaction(async manager => {
+      const { affected } = await manager
+        .createQueryBuilder()
+        .update(Token)
+        .set({ isPinned: false, pinnedUntil: null, lastUpdateAuthor: author })
+        .where('id = :id', { id: token.id })
+        .andWhere('"isPinned" = true')
+        .execute();
+      if (!affected) {
+        return false;
+      }
+
+      await manager.insert(TokenPriceOverride, {
+        tokenId: token.id,
+        action: 'unpin',
+        price: null,
+        previousPrice: token.price,
+        expiresAt: token.pinnedUntil,
+        author,
+        reason: null,
+      });
+      return true;
+    });
+    if (changed) {
+      this.logger.warn(`${author} unpinned price of ${token.symbol || token.id}`);
+    }
+    return changed;
+  }
+
+  // Newest first
+  async list(
+    query: PriceOverrideListQuery,
+  ): Promise<{ overrides: TokenPriceOverride[]; total: number }> {
+    const where: FindOptionsWhere<TokenPriceOverride> = {};
+    if (query.tokenId !== undefined) {
+      where.tokenId = query.tokenId;
+    }
+    if (query.action !== undefined) {
+      where.action = query.action;
+    }
+
+    const [overrides, total] = await this.overrideRepository.findAndCount({
+      where,
+      order: { createdAt: 'DESC' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    });
+
+    return { overrides, total };
+  }
+}
@@ -0,0 +1,60 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PriceProvider, PriceQuery } from './price-provider';
+import { MockPriceService } from './mock-price.service';
+import { FixturePriceService } from './fixture-price.service';
+import { parseKeyValueList } from '../common/key-value-list';
+
+// Picks the price providers for a token: a token override (by id or symbol)
+// wins over a chain override (by deId), which wins over the default. Each
+// setting may name several providers joined with "+", e.g. "mock+fixture".
+@Injectable()
+export class PriceProviderRegistry {
+  private readonly logger = new Logger(PriceProviderRegistry.name);
+  private readonly providers = new Map<string, PriceProvider>();
+  private readonly defaultProviders: PriceProvider[];
+  private readonly chainProviders = new Map<string, PriceProvider[]>();
+  private readonly tokenProviders = new Map<string, PriceProvider[]>();
+
+  constructor(mockPriceService: MockPriceService, fixturePriceService: FixturePriceService) {
+    for (const provider of [mockPriceService, fixturePriceService]) {
+      this.providers.set(provider.name, provider);
+    }
+
+    this.defaultProviders = this.getProviders(process.env.PRICE_PROVIDER || 'mock');
+
+    parseKeyValueList(process.env.PRICE_PROVIDER_CHAINS).forEach((names, chainDeId) => {
+      this.chainProviders.set(chainDeId, this.getProviders(names));
+    });
+    parseKeyValueList(process.env.PRICE_PROVIDER_TOKENS).forEach((names, token) => {
+      this.tokenProviders.set(token.toUpperCase(), this.getProviders(names));
+    });
+
+    this.logger.log(
+      `Default price provider(s): ${this.defaultProviders.map(p => p.name).join('+')} ` +
+        `(${this.chainProviders.size} chain override(s), ${this.tokenProviders.size} token override(s))`,
+    );
+  }
+
+  resolveAll(query: PriceQuery): PriceProvider[] {
+    return (
+      this.tokenProviders.get(query.tokenId.toUpperCase()) ??
+      (query.symbol ? this.tokenProviders.get(query.symbol.toUpperCase()) : undefined) ??
+      this.chainProviders.get(String(query.chainDeId)) ??
+      this.defaultProviders
+    );
+  }
+
+  private getProviders(names: string): PriceProvider[] {
+    return names.split('+').map(name => {
+      const provider = this.providers.get(name.trim());
+      if (!provider) {
+        throw new Error(
+          `Unknown price provider "${name}", expected one of: ${[...this.providers.keys()].join(
+            ', ',
+          )}`,
+        );
+      }
+      return provider;
+    });
+  }
+}
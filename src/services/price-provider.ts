@@ -0,0 +1,37 @@
+import { Token } from '../models/token.entity';
+import { Price } from '../common/price-decimal';
+
+// Everything a provider may need to know about the token it is pricing
+export interface PriceQuery {
+  tokenId: string;
+  symbol: string | null;
+  chainId: string;
+  chainDeId: number;
+  address: string;
+  decimals: number;
+  // Last stored price, 0 if the token has never been priced
+  currentPrice: Price;
+}
+
+export interface PriceProvider {
+  // Name used to select the provider in configuration
+  readonly name: string;
+
+  // Exact price of one whole token; rounding to the token's decimals is left
+  // to the caller. The signal is aborted once the caller has given up, so
+  // providers making requests should pass it on.
+  getPrice(query: PriceQuery, signal?: AbortSignal): Promise<Price>;
+}
+
+export function toPriceQuery(token: Token): PriceQuery {
+  return {
+    tokenId: token.id,
+    symbol: token.symbol ?? null,
+    chainId: token.chainId,
+    // Postgres returns numeric columns as strings
+    chainDeId: Number(token.chain.deId),
+    address: `0x${token.address.toString('hex')}`,
+    decimals: token.decimals,
+    currentPrice: token.price,
+  };
+}
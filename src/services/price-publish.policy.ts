@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common';
+import { Token } from '../models/token.entity';
+import { parseKeyValueList } from '../common/key-value-list';
+import { Price } from '../common/price-decimal';
+
+export type PublishReason = 'deviation' | 'heartbeat';
+
+// A NaN threshold would never trigger a publish, so malformed settings fail
+// at startup instead
+function parseSetting(value: string, setting: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${setting}: ${value}`);
+  }
+  return parsed;
+}
+
+// Oracle-style publishing: a new price is published when it moves far enough
+// from the last published price, or when the token has been silent too long
+@Injectable()
+export class PricePublishPolicy {
+  private readonly defaultDeviationBps: number;
+  private readonly priorityDeviationBps = new Map<string, number>();
+  private readonly tokenDeviationBps = new Map<string, number>();
+  private readonly heartbeatMs: number;
+
+  constructor() {
+    this.defaultDeviationBps = parseSetting(
+      process.env.PUBLISH_DEVIATION_BPS || '10',
+      'PUBLISH_DEVIATION_BPS',
+    );
+    this.heartbeatMs =
+      parseSetting(process.env.PUBLISH_HEARTBEAT_SECONDS || '60', 'PUBLISH_HEARTBEAT_SECONDS') *
+      1000;
+
+    parseKeyValueList(process.env.PUBLISH_DEVIATION_BPS_BY_PRIORITY).forEach((bps, priority) => {
+      this.priorityDeviationBps.set(
+        priority,
+        parseSetting(bps, `PUBLISH_DEVIATION_BPS_BY_PRIORITY entry for ${priority}`),
+      );
+    });
+    parseKeyValueList(process.env.PUBLISH_DEVIATION_BPS_BY_TOKEN).forEach((bps, token) => {
+      this.tokenDeviationBps.set(
+        token.toUpperCase(),
+        parseSetting(bps, `PUBLISH_DEVIATION_BPS_BY_TOKEN entry for ${token}`),
+      );
+    });
+  }
+
+  // Returns why the price should be published, or null to skip it
+  decide(token: Token, newPrice: Price, now: Date): PublishReason | null {
+    const oldPrice = token.price;
+    const thresholdBps = this.getDeviationThresholdBps(token);
+
+    if (!newPrice.equals(oldPrice)) {
+      if (oldPrice.lte(0) || thresholdBps <= 0) {
+        return 'deviation';
+      }
+
+      const deviationBps = newPrice.minus(oldPrice).abs().div(oldPrice).times(10000).toNumber();
+      if (deviationBps >= thresholdBps) {
+        return 'deviation';
+      }
+    }
+
+    if (now.getTime() - token.lastPriceUpdate.getTime() >= this.heartbeatMs) {
+      return 'heartbeat';
+    }
+
+    return null;
+  }
+
+  getDeviationThresholdBps(token: Token): number {
+    return (
+      this.tokenDeviationBps.get(token.id.toUpperCase()) ??
+      (token.symbol ? this.tokenDeviationBps.get(token.symbol.toUpperCase()) : undefined) ??
+      this.priorityDeviationBps.get(String(token.priority)) ??
+      this.defaultDeviationBps
+    );
+  }
+}
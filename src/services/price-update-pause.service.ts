@@ -0,0 +1,119 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Token } from '../models/token.entity';
+import { Chain } from '../models/chain.entity';
+import { PRICE_UPDATE_STATE_ID, PriceUpdateState } from '../models/price-update-state.entity';
+import { createPriceUpdateStateMessage } from '../models/price-update-state-message';
+import { OutboxService } from '../kafka/outbox.service';
+
+type PauseStatus = 'paused' | 'resumed';
+
+// Pauses and resumes price updates for the whole service, a chain (through
+// Chain.isEnabled) or a token (Token.isPaused). The state lives in the
+// database, so it applies to every instance and survives restarts. Each change
+// is made with a conditional update in the same transaction as its
+// price-update-state event, so it is published once; pausing what is already
+// paused changes nothing.
+@Injectable()
+export class PriceUpdatePauseService {
+  private readonly logger = new Logger(PriceUpdatePauseService.name);
+
+  constructor(
+    @InjectRepository(PriceUpdateState)
+    private readonly stateRepository: Repository<PriceUpdateState>,
+    private readonly outboxService: OutboxService,
+  ) {}
+
+  getServiceState(): Promise<PriceUpdateState> {
+    return this.stateRepository.findOneByOrFail({ id: PRICE_UPDATE_STATE_ID });
+  }
+
+  async isServicePaused(): Promise<boolean> {
+    return (await this.getServiceState()).isPaused;
+  }
+
+  // Returns whether the state changed
+  async setServicePaused(isPaused: boolean, author: string): Promise<boolean> {
+    const changed = await this.transition(
+      isPaused ? 'paused' : 'resumed',
+      author,
+      manager =>
+        manager
+          .createQueryBuilder()
+          .update(PriceUpdateState)
+          .set({ isPaused, lastUpdateAuthor: author, updatedAt: new Date() })
+          .where('id = :id', { id: PRICE_UPDATE_STATE_ID })
+          .andWhere('"isPaused" = :wasPaused', { wasPaused: !isPaused })
+          .execute(),
+      { scope: 'service', targetId: null, name: null },
+    );
+    if (changed) {
+      this.logger.warn(`${author} ${isPaused ? 'paused' : 'resumed'} price updates`);
+    }
+    return changed;
+  }
+
+  async setChainEnabled(chain: Chain, isEnabled: boolean, author: string): Promise<boolean> {
+    const changed = await this.transition(
+      isEnabled ? 'resumed' : 'paused',
+      author,
+      manager =>
+        manager
+          .createQueryBuilder()
+          .update(Chain)
+          .set({ isEnabled, lastUpdateAuthor: author })
+          .where('id = :id', { id: chain.id })
+          .andWhere('"isEnabled" = :wasEnabled', { wasEnabled: !isEnabled })
+          .execute(),
+      { scope: 'chain', targetId: chain.id, name: chain.name },
+    );
+    if (changed) {
+      this.logger.warn(
+        `${author} ${isEnabled ? 'resumed' : 'paused'} price updates on chain ${chain.name}`,
+      );
+    }
+    return changed;
+  }
+
+  async setTokenPaused(token: Token, isPaused: boolean, author: string): Promise<boolean> {
+    const changed = await this.transition(
+      isPaused ? 'paused' : 'resumed',
+      author,
+      manager =>
+        manager
+          .createQueryBuilder()
+          .update(Token)
+          .set({ isPaused, lastUpdateAuthor: author })
+          .where('id = :id', { id: token.id })
+          .andWhere('"isPaused" = :wasPaused', { wasPaused: !isPaused })
+          .execute(),
+      { scope: 'token', targetId: token.id, name: token.symbol },
+    );
+    if (changed) {
+      const name = token.symbol || token.id;
+      this.logger.warn(`${author} ${isPaused ? 'paused' : 'resumed'} price updates for ${name}`);
+    }
+    return changed;
+  }
+
+  private async transition(
+    status: PauseStatus,
+    author: string,
+    update: (manager: EntityManager) => Promise<{ affected?: number | null }>,
+    target: { scope: 'service' | 'chain' | 'token'; targetId: string | null; name: string | null },
+  ): Promise<boolean> {
+    return this.stateRepository.manager.transaction(async manager => {
+      const { affected } = await update(manager);
+      if (!affected) {
+        return false;
+      }
+
+      await this.outboxService.enqueueStateEvent(
+        manager,
+        createPriceUpdateStateMessage({ ...target, status, author }),
+      );
+      return true;
+    });
+  }
+}
@@ -0,0 +1,127 @@
+import { Injectable } from '@nestjs/common';
+import { parseKeyValueList } from '../common/key-value-list';
+import { MinHeap } from '../common/min-heap';
+
+// Token fields the scheduler needs to work out a refresh interval
+export interface ScheduledToken {
+  id: string;
+  priority: number;
+  refreshIntervalSeconds: number | null;
+}
+
+export interface TokenSchedule {
+  tokenId: string;
+  intervalSeconds: number;
+  nextRunAt: Date;
+}
+
+// Due-time queue of token refreshes. Each token is refreshed every
+// refreshIntervalSeconds if set, otherwise at the interval of its priority
+// tier (PRICE_REFRESH_SECONDS_BY_PRIORITY), otherwise every
+// PRICE_UPDATE_INTERVAL_SECONDS.
+@Injectable()
+export class PriceUpdateScheduler {
+  private readonly defaultIntervalSeconds: number;
+  private readonly priorityIntervalSeconds = new Map<string, number>();
+  private readonly schedules = new Map<string, TokenSchedule>();
+  // May hold outdated entries; only the one in `schedules` is current
+  private readonly queue = new MinHeap<TokenSchedule>();
+
+  constructor() {
+    this.defaultIntervalSeconds = parseFloat(process.env.PRICE_UPDATE_INTERVAL_SECONDS || '5');
+
+    parseKeyValueList(process.env.PRICE_REFRESH_SECONDS_BY_PRIORITY).forEach(
+      (seconds, priority) => {
+        this.priorityIntervalSeconds.set(priority, parseFloat(seconds));
+      },
+    );
+  }
+
+  getIntervalSeconds(token: ScheduledToken): number {
+    return (
+      token.refreshIntervalSeconds ??
+      this.priorityIntervalSeconds.get(String(token.priority)) ??
+      this.defaultIntervalSeconds
+    );
+  }
+
+  // Adds new tokens (due immediately), drops removed ones and applies changed
+  // intervals
+  sync(tokens: ScheduledToken[], now = new Date()): void {
+    const tokenIds = new Set<string>();
+
+    for (const token of tokens) {
+      tokenIds.add(token.id);
+      const intervalSeconds = this.getIntervalSeconds(token);
+      const existing = this.schedules.get(token.id);
+
+      if (!existing) {
+        this.schedule({ tokenId: token.id, intervalSeconds, nextRunAt: now });
+      } else if (existing.intervalSeconds !== intervalSeconds) {
+        // A shorter interval takes effect right away, a longer one after the
+        // run that is already scheduled
+        const nextRunAt = Math.min(
+          existing.nextRunAt.getTime(),
+          now.getTime() + intervalSeconds * 1000,
+        );
+        this.schedule({ tokenId: token.id, intervalSeconds, nextRunAt: new Date(nextRunAt) });
+      }
+    }
+
+    for (const tokenId of this.schedules.keys()) {
+      if (!tokenIds.has(tokenId)) {
+        this.schedules.delete(tokenId);
+      }
+    }
+  }
+
+  // Returns the tokens that are due and schedules their next run
+  takeDue(now = new Date()): string[] {
+    const due: string[] = [];
+
+    for (let next = this.peek(); next && next.nextRunAt <= now; next = this.peek()) {
+      this.queue.pop();
+      due.push(next.tokenId);
+
+      // Keep the cadence, but skip runs that were missed rather than catch up
+      let nextRunAt = next.nextRunAt.getTime() + next.intervalSeconds * 1000;
+      if (nextRunAt <= now.getTime()) {
+        nextRunAt = now.getTime() + next.intervalSeconds * 1000;
+      }
+      this.schedule({ ...next, nextRunAt: new Date(nextRunAt) });
+    }
+
+    return due;
+  }
+
+  // When the next token is due, or null if nothing is scheduled
+  getNextRunAt(): Date | null {
+    return this.peek()?.nextRunAt ?? null;
+  }
+
+  getSchedule(tokenId: string): TokenSchedule | null {
+    return this.schedules.get(tokenId) ?? null;
+  }
+
+  listSchedules(): TokenSchedule[] {
+    return [...this.schedules.values()].sort(
+      (a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime(),
+    );
+  }
+
+  private schedule(schedule: TokenSchedule): void {
+    this.schedules.set(schedule.tokenId, schedule);
+    this.queue.push(schedule.nextRunAt.getTime(), schedule);
+  }
+
+  // Drops outdated entries from the top of the queue
+  private peek(): TokenSchedule | undefined {
+    for (let top = this.queue.peek(); top; top = this.queue.peek()) {
+      if (this.schedules.get(top.value.tokenId) === top.value) {
+        return top.value;
+      }
+      this.queue.pop();
+    }
+    return undefined;
+  }
+}
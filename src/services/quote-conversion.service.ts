@@ -0,0 +1,231 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, FindOptionsWhere, Raw, Repository } from 'typeorm';
+import { Token } from '../models/token.entity';
+import { TokenQuotePrice } from '../models/token-quote-price.entity';
+import { parseQuoteCurrencies, quoteCurrencySchema } from '../models/quote-currency';
+import { parseKeyValueList } from '../common/key-value-list';
+import { PRICE_SCALE, Price, roundPrice, toPrice } from '../common/price-decimal';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface QuotePriceChange {
+  quote: string;
+  oldPrice: Price;
+  newPrice: Price;
+}
+
+export interface CrossRate {
+  base: string;
+  quote: string;
+  // Units of quote per unit of base
+  rate: Price;
+  // Last update of the older of the two prices the rate was derived from
+  timestamp: Date;
+}
+
+// One side of a cross rate, priced in the base quote
+interface RateSide {
+  name: string;
+  price: Price;
+  lastPriceUpdate: Date | null;
+}
+
+// Converts prices between the configured quote currencies (PRICE_QUOTES).
+// Every quote other than the base quote is backed by a token priced in the
+// base quote (PRICE_QUOTE_TOKENS, by default the token with the quote's
+// symbol), so e.g. a price in BTC is the base price divided by the base price
+// of BTC. Cross rates between two tokens are derived the same way.
+@Injectable()
+export class QuoteConversionService {
+  private readonly logger = new Logger(QuoteConversionService.name);
+  readonly quotes: string[];
+  readonly baseQuote: string;
+  // Token id or symbol backing each quote other than the base quote
+  private readonly quoteTokens = new Map<string, string>();
+
+  constructor(
+    @InjectRepository(Token)
+    private readonly tokenRepository: Repository<Token>,
+  ) {
+    this.quotes = parseQuoteCurrencies(process.env.PRICE_QUOTES);
+    this.baseQuote = this.quotes[0];
+
+    const quoteTokens = new Map<string, string>();
+    parseKeyValueList(process.env.PRICE_QUOTE_TOKENS).forEach((reference, quote) => {
+      const code = quote.toUpperCase();
+      if (!this.quotes.includes(code) || code === this.baseQuote) {
+        throw new Error(
+          `Unknown quote "${quote}" in PRICE_QUOTE_TOKENS, expected one of: ` +
+            this.quotes.slice(1).join(', '),
+        );
+      }
+      quoteTokens.set(code, reference);
+    });
+    for (const quote of this.quotes.slice(1)) {
+      this.quoteTokens.set(quote, quoteTokens.get(quote) ?? quote);
+    }
+  }
+
+  isSupported(quote: string): boolean {
+    return this.quotes.includes(quote);
+  }
+
+  // Base price of one unit of each quote. Quotes whose backing token is
+  // missing or has no price yet are left out.
+  async getRates(
+    manager: EntityManager = this.tokenRepository.manager,
+  ): Promise<Map<string, Price>> {
+    const rates = new Map<string, Price>([[this.baseQuote, toPrice(1)]]);
+
+    for (const [quote, reference] of this.quoteTokens) {
+      const token = await this.findToken(manager, reference);
+      if (token && token.price.gt(0)) {
+        rates.set(quote, token.price);
+      }
+    }
+
+    return rates;
+  }
+
+  // Converts a base price using a rate from getRates, rounded like a stored
+  // price of the token
+  convert(price: Price, rate: Price, decimals: number): Price {
+    return roundPrice(price.div(rate), decimals);
+  }
+
+  // Stores the token's current price in every quote other than the base quote,
+  // as the last price published in each; the API converts on read instead.
+  // Runs inside the transaction that updates the token, after it is saved, so
+  // a token backing a quote is converted with its new price.
+  async storeQuotePrices(
+    manager: EntityManager,
+    token: Token,
+    now: Date,
+  ): Promise<QuotePriceChange[]> {
+    if (this.quotes.length === 1) {
+      return [];
+    }
+
+    const rates = await this.getRates(manager);
+    const stored = await manager.find(TokenQuotePrice, { where: { tokenId: token.id } });
+    const changes: QuotePriceChange[] = [];
+
+    for (const quote of this.quotes.slice(1)) {
+      const rate = rates.get(quote);
+      if (!rate) {
+        this.logger.warn(`No ${this.baseQuote} price for quote ${quote}, not converting`);
+        continue;
+      }
+
+      let newPrice: Price;
+      try {
+        newPrice = this.convert(token.price, rate, token.decimals);
+      } catch (error) {
+        this.logger.warn(
+          `Cannot store price of ${token.symbol || token.id} in ${quote}: ` +
+            (error as Error).message,
+        );
+        continue;
+      }
+
+      const oldPrice = stored.find(row => row.quote === quote)?.price ?? newPrice;
+      await manager.upsert(
+        TokenQuotePrice,
+        { tokenId: token.id, quote, price: newPrice, lastPriceUpdate: now },
+        ['tokenId', 'quote'],
+      );
+      changes.push({ quote, oldPrice, newPrice });
+    }
+
+    return changes;
+  }
+
+  // Prices of the tokens in the given quote, by token id, converted from
+  // their base prices at the current rate. Stored quote prices are not used:
+  // they only change when the token itself is written, not when the token
+  // backing the quote moves. Tokens that cannot be priced in the quote are
+  // left out.
+  async getQuotedPrices(tokens: Token[], quote: string): Promise<Map<string, Price>> {
+    const prices = new Map<string, Price>();
+    if (quote === this.baseQuote) {
+      tokens.forEach(token => prices.set(token.id, token.price));
+      return prices;
+    }
+
+    const rate = tokens.length ? (await this.getRates()).get(quote) : undefined;
+    if (rate) {
+      for (const token of tokens) {
+        try {
+          prices.set(token.id, this.convert(token.price, rate, token.decimals));
+        } catch {
+          // Does not fit a price column; left out like an unknown rate
+        }
+      }
+    }
+
+    return prices;
+  }
+
+  // Rate between two quotes or tokens, each given as a supported quote code,
+  // a token id or a token symbol. Returns null if either side is unknown or
+  // has no price.
+  async getCrossRate(base: string, quote: string): Promise<CrossRate | null> {
+    const [baseSide, quoteSide] = await Promise.all([
+      this.resolveRateSide(base),
+      this.resolveRateSide(quote),
+    ]);
+    if (!baseSide || !quoteSide) {
+      return null;
+    }
+
+    const timestamps = [baseSide.lastPriceUpdate, quoteSide.lastPriceUpdate].filter(
+      (timestamp): timestamp is Date => timestamp !== null,
+    );
+
+    return {
+      base: baseSide.name,
+      quote: quoteSide.name,
+      // Not stored, so only limited to the scale of a price, not its range
+      rate: baseSide.price.div(quoteSide.price).toDecimalPlaces(PRICE_SCALE),
+      timestamp: timestamps.length
+        ? new Date(Math.min(...timestamps.map(timestamp => timestamp.getTime())))
+        : new Date(),
+    };
+  }
+
+  private async resolveRateSide(reference: string): Promise<RateSide | null> {
+    const parsed = quoteCurrencySchema.safeParse(reference);
+    const code = parsed.success ? parsed.data : undefined;
+    if (code === this.baseQuote) {
+      return { name: this.baseQuote, price: toPrice(1), lastPriceUpdate: null };
+    }
+
+    // A quote code stands for its backing token
+    const quoteToken = code !== undefined ? this.quoteTokens.get(code) : undefined;
+    const token = await this.findToken(this.tokenRepository.manager, quoteToken ?? reference);
+    if (!token || !token.price.gt(0)) {
+      return null;
+    }
+
+    return {
+      name: quoteToken && code ? code : token.symbol || token.id,
+      price: token.price,
+      lastPriceUpdate: token.lastPriceUpdate,
+    };
+  }
+
+  // By id, or by symbol (case-insensitive) preferring the highest priority
+  // token when several chains carry it
+  private async findToken(manager: EntityManager, reference: string): Promise<Token | null> {
+    const where: FindOptionsWhere<Token> = UUID_PATTERN.test(reference)
+      ? { id: reference }
+      : { symbol: Raw(alias => `UPPER(${alias}) = UPPER(:symbol)`, { symbol: reference }) };
+
+    return manager.findOne(Token, {
+      where,
+      order: { priority: 'ASC', id: 'ASC' },
+      loadEagerRelations: false,
+    });
+  }
+}
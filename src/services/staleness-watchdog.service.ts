@@ -0,0 +1,169 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Token } from '../models/token.entity';
+import { createTokenPriceStaleMessage } from '../models/token-price-stale-message';
+import { OutboxService } from '../kafka/outbox.service';
+import { parseKeyValueList } from '../common/key-value-list';
+
+export interface StalenessCheckResult {
+  stale: number;
+  recovered: number;
+}
+
+// Flags tokens whose lastPriceUpdate is older than the threshold of their
+// priority tier (PRICE_STALE_SECONDS_BY_PRIORITY, otherwise
+// PRICE_STALE_SECONDS) and clears the flag once they are updated again,
+// paused or pinned. Every change is published as a token-price-stale event.
+// The flag is only changed by a conditional update, so instances running the
+// check side by side publish each change once.
+@Injectable()
+export class StalenessWatchdogService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(StalenessWatchdogService.name);
+  private readonly checkIntervalMs: number;
+  private readonly defaultThresholdSeconds: number;
+  private readonly priorityThresholdSeconds = new Map<string, number>();
+  private timer?: NodeJS.Timeout;
+  private checkPromise?: Promise<StalenessCheckResult>;
+
+  constructor(
+    @InjectRepository(Token)
+    private readonly tokenRepository: Repository<Token>,
+    private readonly outboxService: OutboxService,
+  ) {
+    this.checkIntervalMs = parseFloat(process.env.PRICE_STALE_CHECK_SECONDS || '15') * 1000;
+    this.defaultThresholdSeconds = parseFloat(process.env.PRICE_STALE_SECONDS || '300');
+
+    parseKeyValueList(process.env.PRICE_STALE_SECONDS_BY_PRIORITY).forEach((seconds, priority) => {
+      this.priorityThresholdSeconds.set(priority, parseFloat(seconds));
+    });
+  }
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => {
+      this.check().catch((error: Error) => {
+        this.logger.error(`Error checking for stale prices: ${error.message}`, error.stack);
+      });
+    }, this.checkIntervalMs);
+  }
+
+  getThresholdSeconds(priority: number): number {
+    return this.priorityThresholdSeconds.get(String(priority)) ?? this.defaultThresholdSeconds;
+  }
+
+  // Runs one check; concurrent callers share the same run
+  check(): Promise<StalenessCheckResult> {
+    if (!this.checkPromise) {
+      this.checkPromise = this.runCheck(new Date()).finally(() => {
+        this.checkPromise = undefined;
+      });
+    }
+    return this.checkPromise;
+  }
+
+  private async runCheck(now: Date): Promise<StalenessCheckResult> {
+    const result: StalenessCheckResult = { stale: 0, recovered: 0 };
+    const tokens = await this.tokenRepository.find({
+      select: {
+        id: true,
+        symbol: true,
+        chainId: true,
+        priority: true,
+        price: true,
+        lastPriceUpdate: true,
+        staleSince: true,
+        isPaused: true,
+        isPinned: true,
+      },
+      loadEagerRelations: false,
+    });
+
+    for (const token of tokens) {
+      const thresholdSeconds = this.getThresholdSeconds(token.priority);
+      const isStale = now.getTime() - token.lastPriceUpdate.getTime() > thresholdSeconds * 1000;
+
+      // Paused and pinned tokens are not expected to update, so a flag they
+      // had before is cleared. Tokens of disabled chains are still flagged,
+      // since consumers get no prices for them either.
+      if (token.isPaused || token.isPinned) {
+        if (
+          token.staleSince &&
+          (await this.transition(token, 'recovered', thresholdSeconds, now))
+        ) {
+          result.recovered++;
+          this.logger.log(`Price of ${token.symbol || token.id} is no longer watched`);
+        }
+      } else if (isStale && !token.staleSince) {
+        if (await this.transition(token, 'stale', thresholdSeconds, now)) {
+          result.stale++;
+          this.logger.warn(
+            `Price of ${token.symbol || token.id} is stale, ` +
+              `last updated ${token.lastPriceUpdate.toISOString()}`,
+          );
+        }
+      } else if (!isStale && token.staleSince) {
+        if (await this.transition(token, 'recovered', thresholdSeconds, now)) {
+          result.recovered++;
+          this.logger.log(`Price of ${token.symbol || token.id} has recovered`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Sets or clears staleSince and enqueues the event in one transaction. The
+  // update repeats the staleness condition, so a token updated or flagged
+  // meanwhile is left alone; returns whether the flag was changed.
+  private async transition(
+    token: Token,
+    status: 'stale' | 'recovered',
+    thresholdSeconds: number,
+    now: Date,
+  ): Promise<boolean> {
+    const cutoff = new Date(now.getTime() - thresholdSeconds * 1000);
+
+    return this.tokenRepository.manager.transaction(async manager => {
+      const update = manager.createQueryBuilder().update(Token).where('id = :id', { id: token.id });
+      const { affected } =
+        status === 'stale'
+          ? await update
+              .set({ staleSince: now })
+              .andWhere('"staleSince" IS NULL')
+              .andWhere('"lastPriceUpdate" < :cutoff', { cutoff })
+              .execute()
+          : await update
+              .set({ staleSince: null })
+              .andWhere('"staleSince" IS NOT NULL')
+              .andWhere('("lastPriceUpdate" >= :cutoff OR "isPaused" OR "isPinned")', { cutoff })
+              .execute();
+      if (!affected) {
+        return false;
+      }
+
+      await this.outboxService.enqueueStaleEvent(
+        manager,
+        createTokenPriceStaleMessage({
+          tokenId: token.id,
+          symbol: token.symbol || 'UNKNOWN',
+          chainId: token.chainId,
+          priority: token.priority,
+          status,
+          price: token.price,
+          lastPriceUpdate: token.lastPriceUpdate,
+          thresholdSeconds,
+          timestamp: now,
+        }),
+      );
+      return true;
+    });
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.checkPromise?.catch(() => undefined);
+  }
+}
@@ -0,0 +1,193 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, QueryFailedError, Repository } from 'typeorm';
+import { Token } from '../models/token.entity';
+import { Chain } from '../models/chain.entity';
+import { Logo } from '../models/logo.entity';
+import {
+  CreateChainRequest,
+  CreateLogoRequest,
+  CreateTokenRequest,
+  UpdateChainRequest,
+  UpdateLogoRequest,
+  UpdateTokenRequest,
+} from '../models/admin.schema';
+
+// Thrown when a write would duplicate a token (chain and address) or a chain
+// (deId) that already exists
+export class DuplicateEntityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DuplicateEntityError';
+  }
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// Creates, updates and soft-deletes tokens, chains and logos for the admin
+// API. Every write records its author in lastUpdateAuthor; deleted rows keep
+// their deletedAt and are hidden from all queries. Lookups and checks that
+// decide the HTTP status (missing rows, protected tokens) are left to the
+// controller.
+@Injectable()
+export class TokenAdminService {
+  private readonly logger = new Logger(TokenAdminService.name);
+
+  constructor(
+    @InjectRepository(Token)
+    private readonly tokenRepository: Repository<Token>,
+    @InjectRepository(Chain)
+    private readonly chainRepository: Repository<Chain>,
+    @InjectRepository(Logo)
+    private readonly logoRepository: Repository<Logo>,
+  ) {}
+
+  findChain(id: string): Promise<Chain | null> {
+    return this.chainRepository.findOne({ where: { id } });
+  }
+
+  findLogo(id: string): Promise<Logo | null> {
+    return this.logoRepository.findOne({ where: { id } });
+  }
+
+  findToken(id: string): Promise<Token | null> {
+    return this.tokenRepository.findOne({ where: { id } });
+  }
+
+  countChainTokens(chainId: string): Promise<number> {
+    return this.tokenRepository.count({ where: { chainId } });
+  }
+
+  // Whether a token other than the given one shows the logo
+  async isLogoInUse(logoId: string, exceptTokenId?: string): Promise<boolean> {
+    const where = exceptTokenId ? { logoId, id: Not(exceptTokenId) } : { logoId };
+    return (await this.tokenRepository.count({ where })) > 0;
+  }
+
+  async createChain(data: CreateChainRequest, author: string): Promise<Chain> {
+    const chain = await this.rejectDuplicate(
+      () =>
+        this.chainRepository.save(
+          this.chainRepository.create({ ...data, lastUpdateAuthor: author }),
+        ),
+      `Chain ${data.deId} already exists`,
+    );
+    this.logger.log(`${author} created chain ${chain.name} (${chain.id})`);
+    return chain;
+  }
+
+  async updateChain(chain: Chain, changes: UpdateChainRequest, author: string): Promise<Chain> {
+    const updated = await this.rejectDuplicate(
+      () => this.chainRepository.save({ ...chain, ...changes, lastUpdateAuthor: author }),
+      `Chain ${changes.deId} already exists`,
+    );
+    this.logger.log(`${author} updated chain ${updated.name} (${updated.id})`);
+    return updated;
+  }
+
+  async deleteChain(chain: Chain, author: string): Promise<void> {
+    await this.chainRepository.update(chain.id, {
+      lastUpdateAuthor: author,
+      deletedAt: new Date(),
+    });
+    this.logger.log(`${author} deleted chain ${chain.name} (${chain.id})`);
+  }
+
+  async createLogo(data: CreateLogoRequest, author: string): Promise<Logo> {
+    const logo = await this.logoRepository.save(
+      this.logoRepository.create({ ...data, tokenId: null, lastUpdateAuthor: author }),
+    );
+    this.logger.log(`${author} created logo ${logo.id}`);
+    return logo;
+  }
+
+  async updateLogo(logo: Logo, changes: UpdateLogoRequest, author: string): Promise<Logo> {
+    const updated = await this.logoRepository.save({
+      ...logo,
+      ...changes,
+      lastUpdateAuthor: author,
+    });
+    this.logger.log(`${author} updated logo ${logo.id}`);
+    return updated;
+  }
+
+  // Tokens showing the logo are left without one
+  async deleteLogo(logo: Logo, author: string): Promise<void> {
+    await this.tokenRepository.manager.transaction(async manager => {
+      await manager.update(Token, { logoId: logo.id }, { logoId: null, lastUpdateAuthor: author });
+      await manager.update(Logo, logo.id, { lastUpdateAuthor: author, deletedAt: new Date() });
+    });
+    this.logger.log(`${author} deleted logo ${logo.id}`);
+  }
+
+  // The token is priced from its next scheduled refresh on
+  async createToken(data: CreateTokenRequest, author: string): Promise<Token> {
+    const token = await this.rejectDuplicate(
+      () =>
+        this.tokenRepository.save(
+          this.tokenRepository.create({ ...data, lastUpdateAuthor: author }),
+        ),
+      `Token 0x${data.address.toString('hex')} already exists on chain ${data.chainId}`,
+    );
+    this.logger.log(`${author} created token ${token.symbol || token.id} (${token.id})`);
+    return this.reloadToken(token.id);
+  }
+
+  async updateToken(token: Token, changes: UpdateTokenRequest, author: string): Promise<Token> {
+    const address = changes.address ?? token.address;
+    await this.rejectDuplicate(
+      () => this.tokenRepository.update(token.id, { ...changes, lastUpdateAuthor: author }),
+      `Token 0x${address.toString('hex')} already exists on chain ${
+        changes.chainId ?? token.chainId
+      }`,
+    );
+    this.logger.log(`${author} updated token ${token.symbol || token.id} (${token.id})`);
+    return this.reloadToken(token.id);
+  }
+
+  // Returns false if the token already was in that state
+  async setTokenProtected(token: Token, isProtected: boolean, author: string): Promise<boolean> {
+    const { affected } = await this.tokenRepository
+      .createQueryBuilder()
+      .update(Token)
+      .set({ isProtected, lastUpdateAuthor: author })
+      .where('id = :id', { id: token.id })
+      .andWhere('"isProtected" = :wasProtected', { wasProtected: !isProtected })
+      .execute();
+    if (affected) {
+      this.logger.warn(
+        `${author} ${isProtected ? 'protected' : 'unprotected'} token ` +
+          `${token.symbol || token.id} (${token.id})`,
+      );
+    }
+    return Boolean(affected);
+  }
+
+  async deleteToken(token: Token, author: string): Promise<void> {
+    await this.tokenRepository.update(token.id, {
+      lastUpdateAuthor: author,
+      deletedAt: new Date(),
+    });
+    this.logger.log(`${author} deleted token ${token.symbol || token.id} (${token.id})`);
+  }
+
+  private reloadToken(id: string): Promise<Token> {
+    return this.tokenRepository.findOneOrFail({ where: { id } });
+  }
+
+  // Turns a unique constraint violation into a DuplicateEntityError
+  private async rejectDuplicate<T>(write: () => Promise<T>, message: string): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === UNIQUE_VIOLATION
+      ) {
+        throw new DuplicateEntityError(message);
+      }
+      throw error;
+    }
+  }
+}
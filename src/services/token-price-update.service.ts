@@ -1,27 +1,99 @@
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { hostname } from 'os';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, FindOptionsWhere, In, IsNull, Repository } from 'typeorm';
 import { Token } from '../models/token.entity';
-import { MockPriceService } from './mock-price.service';
-import { KafkaProducerService } from '../kafka/kafka-producer.service';
+import { PriceAggregatorService } from './price-aggregator.service';
+import { PricePublishPolicy } from './price-publish.policy';
+import { PriceUpdateScheduler } from './price-update.scheduler';
+import { toPriceQuery } from './price-provider';
+import { OutboxService } from '../kafka/outbox.service';
+import { OutboxRelayService } from '../kafka/outbox-relay.service';
 import { createTokenPriceUpdateMessage } from '../models/token-price-update-message';
+import { PriceHistoryService } from './price-history.service';
+import { CandleAggregatorService } from './candle-aggregator.service';
+import { createTokenPriceCandleMessage } from '../models/token-price-candle-message';
+import { PriceQuoteMessage } from '../models/price-quote-message';
+import { TimeoutError, mapWithConcurrency, withDeadline } from '../common/concurrency';
+import { CircuitBreakerRegistry } from '../common/circuit-breaker.registry';
+import { CircuitOpenError } from '../common/circuit-breaker';
+import { KAFKA_CIRCUIT } from '../kafka/kafka-producer.service';
+import { Price, formatPrice, roundPrice } from '../common/price-decimal';
+import { MetricsService } from './metrics.service';
+import { QuoteConversionService } from './quote-conversion.service';
+import { PriceUpdatePauseService } from './price-update-pause.service';
+import { TokenPriceOverride, isPinActive } from '../models/token-price-override.entity';
+import { TokenPriceUpdateMessage } from '../models/token-price-update-message';
+
+// How often a paused service checks whether Kafka is back
+const PAUSE_CHECK_INTERVAL_MS = 1000;
+
+type PriceUpdateReason = TokenPriceUpdateMessage['reason'];
+
+// Tokens the pipeline prices: not paused and on an enabled chain
+const UPDATABLE_TOKENS: FindOptionsWhere<Token> = { isPaused: false, chain: { isEnabled: true } };
+
+export interface PriceLoopStatus {
+  isRunning: boolean;
+  runningSince: Date | null;
+  // True from the moment stop() begins until it has finished, and for good
+  // once the application is shutting down
+  isStopping: boolean;
+  // When the loop last finished a cycle, including cycles with nothing due
+  lastCycleAt: Date | null;
+}
 
 @Injectable()
 export class TokenPriceUpdateService implements OnModuleDestroy {
   private readonly logger = new Logger(TokenPriceUpdateService.name);
   private timer?: NodeJS.Timeout;
-  private readonly updateIntervalSeconds: number;
+  private readonly syncIntervalMs: number;
+  private readonly updateIntervalMs: number;
+  private readonly concurrency: number;
+  private readonly priceTimeoutMs: number;
+  // Whether to stop updating prices while the Kafka circuit is open, rather
+  // than keep updating and buffer the messages in the outbox
+  private readonly pauseWhileKafkaDown: boolean;
+  private isPaused = false;
+  // Paused by an operator through the admin API
+  private isPausedByOperator = false;
+  private lastSyncAt = 0;
+  private readonly producerId: string;
   private isRunning = false;
   private isProcessing = false;
+  private isStopping = false;
+  private runningSince: Date | null = null;
+  private lastCycleAt: Date | null = null;
   private shutdownPromise?: Promise<void>;
 
   constructor(
     @InjectRepository(Token)
     private readonly tokenRepository: Repository<Token>,
-    private readonly priceService: MockPriceService,
-    private readonly kafkaProducer: KafkaProducerService,
+    private readonly priceAggregator: PriceAggregatorService,
+    private readonly outboxService: OutboxService,
+    private readonly priceHistoryService: PriceHistoryService,
+    private readonly candleAggregator: CandleAggregatorService,
+    private readonly publishPolicy: PricePublishPolicy,
+    private readonly outboxRelay: OutboxRelayService,
+    private readonly scheduler: PriceUpdateScheduler,
+    private readonly circuitBreakers: CircuitBreakerRegistry,
+    private readonly metrics: MetricsService,
+    private readonly quoteConversion: QuoteConversionService,
+    private readonly pauseService: PriceUpdatePauseService,
   ) {
-    this.updateIntervalSeconds = parseInt(process.env.PRICE_UPDATE_INTERVAL_SECONDS || '5', 10);
+    this.syncIntervalMs = parseFloat(process.env.PRICE_SCHEDULE_SYNC_SECONDS || '30') * 1000;
+    this.updateIntervalMs = parseFloat(process.env.PRICE_UPDATE_INTERVAL_SECONDS || '5') * 1000;
+    this.concurrency = parseInt(process.env.PRICE_UPDATE_CONCURRENCY || '10', 10);
+    this.priceTimeoutMs = parseInt(process.env.PRICE_UPDATE_TIMEOUT_MS || '10000', 10);
+
+    const kafkaUnavailableMode = process.env.KAFKA_UNAVAILABLE_MODE || 'buffer';
+    if (!['buffer', 'pause'].includes(kafkaUnavailableMode)) {
+      throw new Error(
+        `Unknown Kafka unavailable mode "${kafkaUnavailableMode}", expected one of: buffer, pause`,
+      );
+    }
+    this.pauseWhileKafkaDown = kafkaUnavailableMode === 'pause';
+    this.producerId = process.env.KAFKA_PRODUCER_ID || `${hostname()}-${process.pid}`;
   }
 
   start(): void {
@@ -31,31 +103,45 @@ export class TokenPriceUpdateService implements OnModuleDestroy {
     }
 
     this.isRunning = true;
-    this.logger.log(
-      `Starting price update service (interval: ${this.updateIntervalSeconds} seconds)...`,
-    );
+    this.runningSince = new Date();
+    this.logger.log('Starting price update service...');
 
-    this.timer = setInterval(async () => {
-      // Prevent overlapping executions
-      if (this.isProcessing) {
-        this.logger.warn('Previous update still in progress, skipping this iteration');
-        return;
-      }
+    // Trigger an initial update immediately
+    void this.runDue();
+  }
 
-      try {
-        await this.updatePrices();
-      } catch (error) {
-        this.logger.error(
-          `Error in price update interval: ${(error as Error).message}`,
-          (error as Error).stack,
-        );
-      }
-    }, this.updateIntervalSeconds * 1000);
+  // Refreshes the tokens that are due, then sleeps until the next one is
+  private async runDue(): Promise<void> {
+    this.timer = undefined;
+    try {
+      await this.updatePrices();
+    } catch (error) {
+      this.logger.error(
+        `Error in price update run: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    } finally {
+      this.scheduleNext();
+    }
+  }
 
-    // Trigger an initial update immediately
-    this.updatePrices().catch((error: Error) => {
-      this.logger.error(`Error in initial price update: ${error.message}`, error.stack);
-    });
+  private scheduleNext(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    // Wake up at least once per sync interval to pick up new tokens, and once
+    // per update interval so health checks can tell the loop is alive; while
+    // paused the due tokens are left alone, so only check back periodically
+    const maxDelay = Math.min(this.syncIntervalMs, this.updateIntervalMs);
+    const nextRunAt = this.scheduler.getNextRunAt();
+    let delay = nextRunAt
+      ? Math.min(Math.max(nextRunAt.getTime() - Date.now(), 0), maxDelay)
+      : maxDelay;
+    if (this.isPaused || this.isPausedByOperator) {
+      delay = Math.max(delay, PAUSE_CHECK_INTERVAL_MS);
+    }
+    this.timer = setTimeout(() => void this.runDue(), delay);
   }
 
   private async updatePrices(): Promise<void> {
@@ -65,58 +151,371 @@ export class TokenPriceUpdateService implements OnModuleDestroy {
 
     this.isProcessing = true;
     try {
-      const tokens = await this.tokenRepository.find();
-      this.logger.log(`Updating prices for ${tokens.length} tokens...`);
-
-      // Process tokens in parallel with Promise.allSettled for better error handling
-      const updatePromises = tokens.map(token => this.updateTokenPrice(token));
-
-      const results = await Promise.allSettled(updatePromises);
-
-      // Log failed updates
-      const failures = results.filter(result => result.status === 'rejected');
-      if (failures.length > 0) {
-        this.logger.warn(`${failures.length} token(s) failed to update`);
-        failures.forEach(failure => {
-          if (failure.status === 'rejected') {
-            this.logger.error(`Failed to update token: ${failure.reason}`);
-          }
+      if (this.shouldPause() || (await this.checkPausedByOperator())) {
+        return;
+      }
+
+      const now = new Date();
+      if (now.getTime() - this.lastSyncAt >= this.syncIntervalMs) {
+        await this.syncSchedule(now);
+      }
+
+      const dueAt = this.scheduler.getNextRunAt();
+      const dueTokenIds = this.scheduler.takeDue(now);
+      if (dueTokenIds.length === 0) {
+        return;
+      }
+      // Grows when cycles run long or the providers are slow, so tokens are
+      // refreshed later than their interval asks for
+      if (dueAt) {
+        this.metrics.cycleLag.observe(Math.max(now.getTime() - dueAt.getTime(), 0) / 1000);
+      }
+
+      const endCycleTimer = this.metrics.cycleDuration.startTimer();
+      // Tokens paused or on a chain disabled since the last sync are skipped
+      // right away, and pinned prices are not fetched while the pin is in force
+      const tokens = (
+        await this.tokenRepository.findBy({ id: In(dueTokenIds), ...UPDATABLE_TOKENS })
+      ).filter(token => !isPinActive(token, now));
+      this.logger.debug(`Updating prices for ${tokens.length} due token(s)...`);
+
+      // Bounded so a large cycle cannot flood the providers or the database
+      const results = await mapWithConcurrency(tokens, this.concurrency, token =>
+        this.updateTokenPrice(token),
+      );
+      endCycleTimer();
+      this.metrics.cycleTokens.observe(tokens.length);
+
+      // Log failed updates; tokens skipped because every source's circuit is
+      // open are only counted, the breaker has already logged why
+      const failures = results.filter(
+        (result): result is PromiseRejectedResult => result.status === 'rejected',
+      );
+      failures.forEach(failure => {
+        this.metrics.updateFailures.inc({ reason: this.getFailureReason(failure.reason) });
+      });
+      const circuitOpen = failures.filter(failure => failure.reason instanceof CircuitOpenError);
+      if (circuitOpen.length > 0) {
+        this.logger.warn(`${circuitOpen.length} token(s) skipped, price source circuit open`);
+      }
+      const errors = failures.filter(failure => !(failure.reason instanceof CircuitOpenError));
+      if (errors.length > 0) {
+        this.logger.warn(`${errors.length} token(s) failed to update`);
+        errors.forEach(failure => {
+          this.logger.error(`Failed to update token: ${failure.reason}`);
         });
       }
+
+      await this.flushOutbox();
     } catch (error) {
+      this.metrics.updateFailures.inc({ reason: 'cycle' });
       this.logger.error(
         `Error updating prices: ${(error as Error).message}`,
         (error as Error).stack,
       );
     } finally {
       this.isProcessing = false;
+      this.lastCycleAt = new Date();
+    }
+  }
+
+  private getFailureReason(error: unknown): string {
+    if (error instanceof CircuitOpenError) {
+      return 'circuit_open';
+    }
+    if (error instanceof TimeoutError) {
+      return 'timeout';
+    }
+    return 'error';
+  }
+
+  getStatus(): PriceLoopStatus {
+    return {
+      isRunning: this.isRunning,
+      runningSince: this.runningSince,
+      isStopping: this.isStopping || this.shutdownPromise !== undefined,
+      lastCycleAt: this.lastCycleAt,
+    };
+  }
+
+  // In pause mode, tokens stay due while the Kafka circuit is open and are
+  // updated once it closes
+  private shouldPause(): boolean {
+    const kafkaDown =
+      this.pauseWhileKafkaDown && !this.circuitBreakers.get(KAFKA_CIRCUIT).canExecute();
+
+    if (kafkaDown !== this.isPaused) {
+      this.isPaused = kafkaDown;
+      if (kafkaDown) {
+        this.logger.warn('Kafka circuit is open, pausing price updates');
+      } else {
+        this.logger.log('Kafka circuit is no longer open, resuming price updates');
+      }
+    }
+    return kafkaDown;
+  }
+
+  // Reads the service-wide pause switch and logs when it flips; due tokens
+  // stay due while paused and are updated once resumed
+  private async checkPausedByOperator(): Promise<boolean> {
+    const isPaused = await this.pauseService.isServicePaused();
+    if (isPaused !== this.isPausedByOperator) {
+      this.isPausedByOperator = isPaused;
+      if (isPaused) {
+        this.logger.warn('Price updates paused through the admin API');
+      } else {
+        this.logger.log('Price updates resumed through the admin API');
+      }
     }
+    return isPaused;
+  }
+
+  // Loads the tokens to schedule, so added, removed and paused tokens, chains
+  // that were disabled and changed intervals are picked up
+  private async syncSchedule(now: Date): Promise<void> {
+    const tokens = await this.tokenRepository.find({
+      select: { id: true, priority: true, refreshIntervalSeconds: true },
+      where: UPDATABLE_TOKENS,
+      loadEagerRelations: false,
+    });
+    this.scheduler.sync(tokens, now);
+    this.lastSyncAt = now.getTime();
+  }
+
+  // Publishes the messages of this cycle right away as one Kafka batch instead
+  // of waiting for the next outbox poll
+  private async flushOutbox(): Promise<void> {
+    const { sent, failures } = await this.outboxRelay.relayPending();
+    failures.forEach(failure => {
+      this.logger.error(
+        `Failed to publish message to ${failure.topic} (key ${failure.key}): ${failure.error}`,
+      );
+    });
+    this.logger.debug(`Published ${sent} message(s) for this update cycle`);
+  }
+
+  // Applies a quote from an external feed through the same pipeline as the
+  // polled prices. Returns false if the quote was ignored.
+  async applyQuote(quote: PriceQuoteMessage): Promise<boolean> {
+    const token = await this.tokenRepository.findOne({
+      where: { chain: { deId: quote.deId }, address: quote.address },
+    });
+    if (!token) {
+      this.logger.debug(
+        `No token for quote on chain ${quote.deId} at 0x${quote.address.toString('hex')}`,
+      );
+      return false;
+    }
+
+    if (token.isPaused || !token.chain.isEnabled || (await this.pauseService.isServicePaused())) {
+      this.logger.debug(`Price updates for ${token.symbol} are paused, ignoring quote`);
+      return false;
+    }
+
+    if (isPinActive(token, new Date())) {
+      this.logger.debug(`Price of ${token.symbol} is pinned, ignoring quote`);
+      return false;
+    }
+
+    // Quotes may arrive out of order; never go back to an older price
+    if (quote.timestamp < token.lastPriceUpdate) {
+      this.logger.debug(`Ignoring stale quote for ${token.symbol}`);
+      return false;
+    }
+
+    // Feed quotes in another supported quote are converted to the base quote
+    let price = quote.price;
+    if (quote.quote !== undefined && quote.quote !== this.quoteConversion.baseQuote) {
+      const rate = (await this.quoteConversion.getRates()).get(quote.quote);
+      if (!rate) {
+        this.logger.warn(`No rate for ${quote.quote}, ignoring quote for ${token.symbol}`);
+        return false;
+      }
+      price = price.mul(rate);
+    }
+
+    await this.applyPrice(token, price, [quote.source], quote.timestamp);
+    return true;
   }
 
   private async updateTokenPrice(token: Token): Promise<void> {
+    // Only the price lookup is bounded; once the price is known the database
+    // write runs to completion so it cannot commit after being given up on.
+    // Provider calls past the deadline are cancelled rather than left running.
+    const { price, sources } = await withDeadline(
+      signal => this.priceAggregator.getPrice(toPriceQuery(token), signal),
+      this.priceTimeoutMs,
+      `Price lookup for ${token.symbol || token.id}`,
+    );
+    await this.applyPrice(token, price, sources, new Date());
+  }
+
+  private async applyPrice(
+    token: Token,
+    price: Price,
+    sources: string[],
+    now: Date,
+  ): Promise<void> {
+    // Rounded before comparing, so a change below the token's precision is
+    // not a change
+    const newPrice = roundPrice(price, token.decimals);
+    const reason = this.publishPolicy.decide(token, newPrice, now);
+    if (!reason) {
+      this.logger.debug(`Price for ${token.symbol} within threshold, not publishing`);
+      return;
+    }
+
+    await this.writePrice(token, newPrice, { sources, reason, now });
+  }
+
+  // Saves a price rounded to the token's decimals with its history, candles
+  // and quote prices, and publishes it. Prices from providers and the feed
+  // give way to a pin set meanwhile (returning false), and clear and record a
+  // pin that has expired; overrides are written as they are. `record` adds
+  // writes to the same transaction.
+  async writePrice(
+    token: Token,
+    newPrice: Price,
+    options: { sources: string[]; reason: PriceUpdateReason; now: Date; author?: string },
+    record?: (manager: EntityManager) => Promise<void>,
+  ): Promise<boolean> {
+    const { sources, reason, now, author } = options;
     const oldPrice = token.price;
-    const newPrice = await this.priceService.getRandomPriceForToken();
+    const query = toPriceQuery(token);
 
-    if (oldPrice !== newPrice) {
-      // Create message for Kafka using Zod helper function
-      const message = createTokenPriceUpdateMessage({
+    // Create messages for Kafka using Zod helper function, one per quote
+    const createMessage = (quote: string, oldPrice: Price, newPrice: Price) =>
+      createTokenPriceUpdateMessage({
+        producer: this.producerId,
         tokenId: token.id,
         symbol: token.symbol || 'UNKNOWN',
+        chainId: query.chainId,
+        deId: query.chainDeId,
+        address: query.address,
+        decimals: query.decimals,
+        quote,
         oldPrice,
         newPrice,
-        // timestamp will be set to current date by default if not provided
+        sources,
+        reason,
+        author,
+        timestamp: now,
       });
 
-      // Send to Kafka first, then update database
-      await this.kafkaProducer.sendPriceUpdateMessage(message);
+    // Update token, price history, candles and the Kafka outbox atomically;
+    // the outbox relay publishes the messages once the transaction commits
+    const written = await this.tokenRepository.manager.transaction(async manager => {
+      if (reason !== 'override' && !(await this.releaseExpiredPin(manager, token, now))) {
+        return false;
+      }
+
+      // Only write the columns this update owns, so that concurrent admin
+      // changes to the token are kept, and nothing for a deleted token. An
+      // override writes the pin set by the caller; otherwise any pin has
+      // expired and the row is locked by releaseExpiredPin.
+      const { affected } = await manager.update(
+        Token,
+        { id: token.id, deletedAt: IsNull() },
+        {
+          price: newPrice,
+          lastPriceUpdate: now,
+          ...(reason === 'override'
+            ? {
+                isPinned: token.isPinned,
+                pinnedUntil: token.pinnedUntil,
+                lastUpdateAuthor: token.lastUpdateAuthor,
+              }
+            : { isPinned: false, pinnedUntil: null }),
+        },
+      );
+      if (!affected) {
+        return false;
+      }
 
-      // Update token in database
       token.price = newPrice;
-      token.lastPriceUpdate = new Date();
+      token.lastPriceUpdate = now;
+      await record?.(manager);
+      const quotePrices = await this.quoteConversion.storeQuotePrices(manager, token, now);
+      await this.priceHistoryService.record(manager, token.id, newPrice, token.lastPriceUpdate);
+      const candles = await this.candleAggregator.recordPrice(
+        manager,
+        token.id,
+        newPrice,
+        token.lastPriceUpdate,
+      );
 
-      await this.tokenRepository.save(token);
-      this.logger.log(`Updated price for ${token.symbol}: ${oldPrice} -> ${newPrice}`);
+      await this.outboxService.enqueuePriceUpdate(
+        manager,
+        createMessage(this.quoteConversion.baseQuote, oldPrice, newPrice),
+      );
+      for (const quotePrice of quotePrices) {
+        await this.outboxService.enqueuePriceUpdate(
+          manager,
+          createMessage(quotePrice.quote, quotePrice.oldPrice, quotePrice.newPrice),
+        );
+      }
+      await this.outboxService.enqueueCandles(
+        manager,
+        candles.map(candle =>
+          createTokenPriceCandleMessage({
+            ...candle,
+            symbol: token.symbol || 'UNKNOWN',
+            timestamp: now,
+          }),
+        ),
+      );
+      return true;
+    });
+    if (!written) {
+      this.logger.debug(
+        `Price of ${token.symbol} was pinned or the token deleted meanwhile, not updating`,
+      );
+      return false;
+    }
+
+    this.logger.log(
+      `Updated price for ${token.symbol} (${reason}): ` +
+        `${formatPrice(oldPrice)} -> ${formatPrice(newPrice)}`,
+    );
+    return true;
+  }
+
+  // Locks the token row, so a pin cannot be committed between this check and
+  // the write. Returns false while a pin is in force; an expired pin is
+  // cleared and recorded in the override audit trail.
+  private async releaseExpiredPin(
+    manager: EntityManager,
+    token: Token,
+    now: Date,
+  ): Promise<boolean> {
+    const current = await manager.findOne(Token, {
+      select: { id: true, isPinned: true, pinnedUntil: true },
+      where: { id: token.id },
+      lock: { mode: 'pessimistic_write' },
+      loadEagerRelations: false,
+    });
+    if (!current?.isPinned) {
+      token.isPinned = false;
+      return true;
     }
+    if (isPinActive(current, now)) {
+      return false;
+    }
+
+    await manager.insert(TokenPriceOverride, {
+      tokenId: token.id,
+      action: 'expire',
+      price: null,
+      previousPrice: token.price,
+      expiresAt: current.pinnedUntil,
+      author: null,
+      reason: null,
+      createdAt: now,
+    });
+    token.isPinned = false;
+    token.pinnedUntil = null;
+    this.logger.log(`Pinned price of ${token.symbol || token.id} expired`);
+    return true;
   }
 
   async stop(): Promise<void> {
@@ -127,9 +526,11 @@ export class TokenPriceUpdateService implements OnModuleDestroy {
 
     this.logger.log('Stopping price update service...');
     this.isRunning = false;
+    this.runningSince = null;
+    this.isStopping = true;
 
     if (this.timer) {
-      clearInterval(this.timer);
+      clearTimeout(this.timer);
       this.timer = undefined;
     }
 
@@ -149,6 +550,7 @@ export class TokenPriceUpdateService implements OnModuleDestroy {
       }
     }
 
+    this.isStopping = false;
     this.logger.log('Price update service stopped');
   }
 
@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Raw, Repository } from 'typeorm';
+import { Token } from '../models/token.entity';
+import { Chain } from '../models/chain.entity';
+import { TokenListQuery } from '../models/token-query.schema';
+
+export interface ChainWithTokenCount {
+  chain: Chain;
+  tokenCount: number;
+}
+
+@Injectable()
+export class TokenQueryService {
+  constructor(
+    @InjectRepository(Token)
+    private readonly tokenRepository: Repository<Token>,
+    @InjectRepository(Chain)
+    private readonly chainRepository: Repository<Chain>,
+  ) {}
+
+  async listTokens(query: TokenListQuery): Promise<{ tokens: Token[]; total: number }> {
+    const where: FindOptionsWhere<Token> = {};
+
+    if (query.chainId !== undefined) {
+      where.chainId = query.chainId;
+    }
+    if (query.symbol !== undefined) {
+      // Symbols are matched case-insensitively
+      where.symbol = Raw(alias => `UPPER(${alias}) = UPPER(:symbol)`, { symbol: query.symbol });
+    }
+    if (query.isNative !== undefined) {
+      where.isNative = query.isNative;
+    }
+    if (query.priority !== undefined) {
+      where.priority = query.priority;
+    }
+
+    const [tokens, total] = await this.tokenRepository.findAndCount({
+      where,
+      order: { priority: 'ASC', symbol: 'ASC', id: 'ASC' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    });
+
+    return { tokens, total };
+  }
+
+  async findTokenById(id: string): Promise<Token | null> {
+    return this.tokenRepository.findOne({ where: { id } });
+  }
+
+  async findTokenByAddress(chainId: string, address: Buffer): Promise<Token | null> {
+    return this.tokenRepository.findOne({ where: { chainId, address } });
+  }
+
+  async listChainsWithTokenCounts(): Promise<ChainWithTokenCount[]> {
+    const { entities, raw } = await this.chainRepository
+      .createQueryBuilder('chain')
+      .leftJoin('chain.tokens', 'token')
+      .addSelect('COUNT(token.id)', 'tokenCount')
+      .groupBy('chain.id')
+      .orderBy('chain.deId', 'ASC')
+      .getRawAndEntities();
+
+    // Entities and raw rows come back in the same order
+    return entities.map((chain, index) => ({
+      chain,
+      tokenCount: parseInt(raw[index].tokenCount, 10),
+    }));
+  }
+}
@@ -5,11 +5,33 @@ import { Kafka, Consumer } from 'kafkajs';
 import { Token } from '../../models/token.entity';
 import { Chain } from '../../models/chain.entity';
 import { Logo } from '../../models/logo.entity';
+import { TokenPriceHistory } from '../../models/token-price-history.entity';
+import { TokenPriceCandle } from '../../models/token-price-candle.entity';
+import { OutboxMessage } from '../../models/outbox-message.entity';
+import { DeadLetterMessage } from '../../models/dead-letter-message.entity';
+import { TokenQuotePrice } from '../../models/token-quote-price.entity';
+import { PRICE_UPDATE_STATE_ID, PriceUpdateState } from '../../models/price-update-state.entity';
+import { TokenPriceOverride } from '../../models/token-price-override.entity';
 import { TokenPriceUpdateService } from '../../services/token-price-update.service';
 import { MockPriceService } from '../../services/mock-price.service';
-import { KafkaProducerService } from '../../kafka/kafka-producer.service';
+import { FixturePriceService } from '../../services/fixture-price.service';
+import { PriceProviderRegistry } from '../../services/price-provider.registry';
+import { PriceAggregatorService } from '../../services/price-aggregator.service';
+import { PricePublishPolicy } from '../../services/price-publish.policy';
+import { PriceUpdateScheduler } from '../../services/price-update.scheduler';
+import { CircuitBreakerRegistry } from '../../common/circuit-breaker.registry';
+import { MetricsService } from '../../services/metrics.service';
+import { QuoteConversionService } from '../../services/quote-conversion.service';
+import { PriceUpdatePauseService } from '../../services/price-update-pause.service';
+import { KafkaProducerService, OutboundMessage } from '../../kafka/kafka-producer.service';
+import { OutboxService } from '../../kafka/outbox.service';
+import { OutboxRelayService } from '../../kafka/outbox-relay.service';
+import { DeadLetterService } from '../../kafka/dead-letter.service';
+import { PriceHistoryService } from '../../services/price-history.service';
+import { CandleAggregatorService } from '../../services/candle-aggregator.service';
 import { Repository } from 'typeorm';
 import { getRepositoryToken } from '@nestjs/typeorm';
+import { formatPrice, toPrice } from '../../common/price-decimal';
 
 describe('TokenPriceService Integration Tests', () => {
   let postgresContainer: StartedTestContainer;
@@ -19,6 +41,7 @@ describe('TokenPriceService Integration Tests', () => {
   let tokenRepository: Repository<Token>;
   let chainRepository: Repository<Chain>;
   let logoRepository: Repository<Logo>;
+  let historyRepository: Repository<TokenPriceHistory>;
   let tokenPriceUpdateService: TokenPriceUpdateService;
   let kafkaConsumer: Consumer;
 
@@ -31,6 +54,9 @@ describe('TokenPriceService Integration Tests', () => {
   };
 
   beforeAll(async () => {
+    // Publish every price change so a short run is enough to see an update
+    process.env.PUBLISH_DEVIATION_BPS = '0';
+
     jest.setTimeout(120000); // 2 minutes timeout for container startup
 
     try {
@@ -107,18 +133,60 @@ describe('TokenPriceService Integration Tests', () => {
             username: 'testuser',
             password: 'testpassword',
             database: 'testdb',
-            entities: [Token, Chain, Logo],
+            entities: [
+              Token,
+              Chain,
+              Logo,
+              TokenPriceHistory,
+              TokenPriceCandle,
+              OutboxMessage,
+              DeadLetterMessage,
+              TokenQuotePrice,
+              PriceUpdateState,
+              TokenPriceOverride,
+            ],
             synchronize: true,
           }),
-          TypeOrmModule.forFeature([Token, Chain, Logo]),
+          TypeOrmModule.forFeature([
+            Token,
+            Chain,
+            Logo,
+            TokenPriceHistory,
+            TokenPriceCandle,
+            OutboxMessage,
+            DeadLetterMessage,
+            TokenQuotePrice,
+            PriceUpdateState,
+            TokenPriceOverride,
+          ]),
         ],
         providers: [
           TokenPriceUpdateService,
           MockPriceService,
+          FixturePriceService,
+          PriceProviderRegistry,
+          PriceAggregatorService,
+          PricePublishPolicy,
+          PriceUpdateScheduler,
+          CircuitBreakerRegistry,
+          MetricsService,
+          QuoteConversionService,
+          PriceUpdatePauseService,
+          PriceHistoryService,
+          CandleAggregatorService,
+          OutboxService,
+          OutboxRelayService,
+          DeadLetterService,
           {
             provide: KafkaProducerService,
             useValue: {
-              sendPriceUpdateMessage: jest.fn().mockImplementation(() => Promise.resolve()),
+              send: jest.fn().mockImplementation(() => Promise.resolve()),
+              isAvailable: jest.fn().mockReturnValue(true),
+              sendBatch: jest
+                .fn()
+                .mockImplementation((messages: OutboundMessage[]) =>
+                  Promise.resolve(messages.map(message => ({ message, status: 'sent' }))),
+                ),
             },
           },
         ],
@@ -127,7 +195,15 @@ describe('TokenPriceService Integration Tests', () => {
       tokenRepository = moduleRef.get<Repository<Token>>(getRepositoryToken(Token));
       chainRepository = moduleRef.get<Repository<Chain>>(getRepositoryToken(Chain));
       logoRepository = moduleRef.get<Repository<Logo>>(getRepositoryToken(Logo));
+      historyRepository = moduleRef.get<Repository<TokenPriceHistory>>(
+        getRepositoryToken(TokenPriceHistory),
+      );
       tokenPriceUpdateService = moduleRef.get<TokenPriceUpdateService>(TokenPriceUpdateService);
+
+      // synchronize creates the tables but not the row the migration inserts
+      await moduleRef
+        .get<Repository<PriceUpdateState>>(getRepositoryToken(PriceUpdateState))
+        .insert({ id: PRICE_UPDATE_STATE_ID });
     } catch (error) {
       console.error('Error during test setup:', error);
       throw error;
@@ -188,7 +264,7 @@ describe('TokenPriceService Integration Tests', () => {
       isProtected: false,
       priority: 1,
       timestamp: new Date(),
-      price: 100,
+      price: toPrice(100),
       lastPriceUpdate: new Date(),
     });
     await tokenRepository.save(token);
@@ -206,10 +282,22 @@ describe('TokenPriceService Integration Tests', () => {
     const updatedToken = await tokenRepository.findOne({ where: { id: token.id } });
     expect(updatedToken).toBeDefined();
     if (updatedToken) {
-      expect(updatedToken.price).not.toEqual(100);
+      expect(formatPrice(updatedToken.price)).not.toBe('100');
     }
 
-    // Note: In a real test, we would also check for Kafka messages,
-    // but since we're mocking the KafkaProducerService, we can't do that here
+    // Every price change should be recorded in price history
+    const history = await historyRepository.find({ where: { tokenId: token.id } });
+    expect(history.length).toBeGreaterThan(0);
+    expect(history.map(entry => formatPrice(entry.price))).toContain(
+      updatedToken && formatPrice(updatedToken.price),
+    );
+
+    // The outbox relay should have handed the price update to Kafka
+    const kafkaProducer = moduleRef.get<{ sendBatch: jest.Mock }>(KafkaProducerService);
+    const priceUpdateKeys = kafkaProducer.sendBatch.mock.calls
+      .flatMap(([messages]: [OutboundMessage[]]) => messages)
+      .filter(message => message.topic === kafkaTopic)
+      .map(message => message.key);
+    expect(priceUpdateKeys).toContain(token.id);
   }, 10000);
 });
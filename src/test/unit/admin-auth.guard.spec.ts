@@ -0,0 +1,40 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { AdminAuthGuard } from '../../common/admin-auth.guard';
+
+describe('AdminAuthGuard', () => {
+  const contextFor = (request: { headers: Record<string, string>; adminAuthor?: string }) =>
+    ({ switchToHttp: () => ({ getRequest: () => request }) } as unknown as ExecutionContext);
+
+  afterEach(() => {
+    delete process.env.ADMIN_API_KEYS;
+  });
+
+  it('accepts a configured key and records its author', () => {
+    process.env.ADMIN_API_KEYS = 'alice:s3cret:with-colon,bob:t0ken';
+    const guard = new AdminAuthGuard();
+    const request = { headers: { authorization: 'Bearer s3cret:with-colon' } } as {
+      headers: Record<string, string>;
+      adminAuthor?: string;
+    };
+
+    expect(guard.canActivate(contextFor(request))).toBe(true);
+    expect(request.adminAuthor).toBe('alice');
+  });
+
+  it('rejects missing, malformed and unknown keys', () => {
+    process.env.ADMIN_API_KEYS = 'alice:s3cret';
+    const guard = new AdminAuthGuard();
+
+    for (const authorization of [undefined, 's3cret', 'Basic s3cret', 'Bearer wrong']) {
+      const headers: Record<string, string> = authorization ? { authorization } : {};
+      expect(() => guard.canActivate(contextFor({ headers }))).toThrow(UnauthorizedException);
+    }
+  });
+
+  it('rejects every key when none are configured', () => {
+    const guard = new AdminAuthGuard();
+    const headers = { authorization: 'Bearer anything' };
+
+    expect(() => guard.canActivate(contextFor({ headers }))).toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,27 @@
+import { CandleAggregatorService } from '../../services/candle-aggregator.service';
+import { formatPrice, toPrice } from '../../common/price-decimal';
+
+describe('CandleAggregatorService', () => {
+  it('folds rebuilt history into the same buckets as live candles', () => {
+    const points = [
+      ['2024-01-01T00:59:59Z', '10'],
+      ['2024-01-01T01:00:00Z', '12'],
+      ['2024-01-01T01:20:00Z', '15'],
+      ['2024-01-01T01:40:00Z', '9'],
+      ['2024-01-01T01:59:59Z', '11'],
+    ].map(([recordedAt, price]) => ({ recordedAt: new Date(recordedAt), price: toPrice(price) }));
+
+    const candles = CandleAggregatorService.foldCandles('token', '1h', points).map(candle => ({
+      openTime: candle.openTime.toISOString(),
+      ohlc: [candle.open, candle.high, candle.low, candle.close].map(formatPrice),
+    }));
+
+    expect(candles).toEqual([
+      { openTime: '2024-01-01T00:00:00.000Z', ohlc: ['10', '10', '10', '10'] },
+      { openTime: '2024-01-01T01:00:00.000Z', ohlc: ['12', '15', '9', '11'] },
+    ]);
+    expect(CandleAggregatorService.bucketStart(points[3].recordedAt, '1h').toISOString()).toBe(
+      candles[1].openTime,
+    );
+  });
+});
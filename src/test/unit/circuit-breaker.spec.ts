@@ -0,0 +1,82 @@
+import { CircuitBreaker, CircuitOpenError } from '../../common/circuit-breaker';
+import { CircuitBreakerRegistry } from '../../common/circuit-breaker.registry';
+import { TimeoutError, withDeadline } from '../../common/concurrency';
+import { PriceAggregatorService } from '../../services/price-aggregator.service';
+import { PriceQuery } from '../../services/price-provider';
+
+describe('CircuitBreaker', () => {
+  const fail = () => Promise.reject(new Error('down'));
+  const succeed = () => Promise.resolve('ok');
+
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    breaker = new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 1000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after consecutive failures and then fails fast', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    expect(breaker.getStatus().state).toBe('closed');
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+
+    const operation = jest.fn(succeed);
+    await expect(breaker.execute(operation)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(operation).not.toHaveBeenCalled();
+    expect(breaker.getStatus()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+      lastError: 'down',
+    });
+  });
+
+  it('closes again after a successful trial call', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.canExecute()).toBe(true);
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('reopens when the trial call fails', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    jest.advanceTimersByTime(1000);
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    expect(breaker.getStatus().state).toBe('open');
+    expect(breaker.canExecute()).toBe(false);
+  });
+});
+
+describe('price provider circuits', () => {
+  afterEach(() => {
+    delete process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD;
+  });
+
+  it('count lookups that time out as provider failures', async () => {
+    process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = '2';
+    const circuitBreakers = new CircuitBreakerRegistry();
+    const hung = { name: 'hung', getPrice: jest.fn(() => new Promise<never>(() => undefined)) };
+    const aggregator = new PriceAggregatorService(
+      { resolveAll: () => [hung] } as never,
+      circuitBreakers,
+      { providerLatency: { startTimer: () => () => undefined } } as never,
+    );
+    const lookup = () =>
+      withDeadline(signal => aggregator.getPrice({} as PriceQuery, signal), 5, 'Lookup');
+
+    await expect(lookup()).rejects.toBeInstanceOf(TimeoutError);
+    await expect(lookup()).rejects.toBeInstanceOf(TimeoutError);
+
+    expect(circuitBreakers.get('price-provider:hung').getStatus().state).toBe('open');
+    await expect(aggregator.getPrice({} as PriceQuery)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(hung.getPrice).toHaveBeenCalledTimes(2);
+  });
+});
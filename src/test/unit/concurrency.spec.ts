@@ -0,0 +1,85 @@
+import {
+  TimeoutError,
+  mapWithConcurrency,
+  withDeadline,
+  withTimeout,
+} from '../../common/concurrency';
+import { TokenBucket } from '../../common/token-bucket';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('concurrency helpers', () => {
+  it('never runs more than the limit at once and keeps input order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3, 0], 2, async value => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(value);
+      inFlight--;
+      if (value === 0) {
+        throw new Error('zero');
+      }
+      return value * 10;
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(results.slice(0, 5)).toEqual(
+      [50, 10, 40, 20, 30].map(value => ({ status: 'fulfilled', value })),
+    );
+    expect(results[5]).toEqual({ status: 'rejected', reason: new Error('zero') });
+  });
+
+  it('rejects calls that outlive their timeout', async () => {
+    const slow = withTimeout(sleep(50), 5, 'Slow call');
+    await expect(slow).rejects.toThrow('Slow call timed out after 5ms');
+    await expect(slow).rejects.toBeInstanceOf(TimeoutError);
+    await expect(withTimeout(Promise.resolve(1), 50, 'Fast call')).resolves.toBe(1);
+  });
+
+  it('lets a burst through, then paces calls at the bucket rate', async () => {
+    const bucket = new TokenBucket(100, 3);
+    const startedAt = Date.now();
+
+    await Promise.all(Array.from({ length: 8 }, () => bucket.acquire()));
+
+    // 3 calls from the burst, the other 5 at 10ms intervals
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+  });
+
+  it('aborts work that outlives its deadline', async () => {
+    let aborted: unknown;
+    const slow = withDeadline(
+      signal =>
+        new Promise((_, reject) =>
+          signal.addEventListener('abort', () => {
+            aborted = signal.reason;
+            reject(signal.reason);
+          }),
+        ),
+      5,
+      'Slow call',
+    );
+
+    await expect(slow).rejects.toThrow('Slow call timed out after 5ms');
+    expect(aborted).toBeInstanceOf(TimeoutError);
+    await expect(withDeadline(async () => 1, 50, 'Fast call')).resolves.toBe(1);
+  });
+
+  it('drops callers that gave up without using up tokens', async () => {
+    const bucket = new TokenBucket(20, 1);
+    await bucket.acquire();
+
+    // Queued behind the empty bucket until its 50ms turn, but given up on first
+    const controller = new AbortController();
+    const abandoned = bucket.acquire(controller.signal);
+    controller.abort(new TimeoutError('Lookup timed out'));
+    await expect(abandoned).rejects.toBeInstanceOf(TimeoutError);
+
+    // The next caller gets the token the abandoned one would have used
+    const startedAt = Date.now();
+    await bucket.acquire();
+    expect(Date.now() - startedAt).toBeLessThan(90);
+  });
+});
@@ -0,0 +1,73 @@
+import { JsonSchema, findBreakingChanges } from '../../common/json-schema-compatibility';
+
+describe('JSON Schema compatibility', () => {
+  const published: JsonSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      price: { type: 'number', minimum: 0 },
+      reason: { type: 'string', enum: ['deviation', 'heartbeat'] },
+      sources: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+    },
+    required: ['id', 'price', 'reason', 'sources'],
+    additionalProperties: true,
+  };
+
+  const withChanges = (
+    changes: (schema: JsonSchema, properties: Record<string, JsonSchema>) => void,
+  ): JsonSchema => {
+    const schema = JSON.parse(JSON.stringify(published)) as JsonSchema;
+    changes(schema, schema.properties ?? {});
+    return schema;
+  };
+
+  it('accepts an identical schema', () => {
+    expect(findBreakingChanges(published, published)).toEqual([]);
+  });
+
+  it('accepts new optional properties and tightened constraints', () => {
+    const next = withChanges((_, properties) => {
+      properties.note = { type: 'string' };
+      properties.price = { type: 'integer', minimum: 1 };
+      properties.reason.enum = ['deviation'];
+    });
+
+    expect(findBreakingChanges(published, next)).toEqual([]);
+  });
+
+  it('reports removed or optional fields, type changes and new enum values', () => {
+    const next = withChanges((schema, properties) => {
+      schema.required = ['id', 'reason', 'sources'];
+      delete properties.price;
+      properties.id = { type: 'number' };
+      properties.reason.enum = ['deviation', 'heartbeat', 'manual'];
+    });
+
+    expect(findBreakingChanges(published, next)).toEqual([
+      '$.price: no longer required',
+      '$.id: type changed from string to number',
+      '$.id: format changed from uuid to none',
+      '$.reason: enum values added: "manual"',
+    ]);
+  });
+
+  it('reports relaxed constraints on nested items', () => {
+    const next = withChanges((_, properties) => {
+      properties.sources = { type: 'array', items: { type: 'string' } };
+    });
+
+    expect(findBreakingChanges(published, next)).toEqual([
+      '$.sources: minItems relaxed from 1 to none',
+      '$.sources[]: minLength relaxed from 1 to none',
+    ]);
+  });
+
+  it('reports new properties when additional properties were not allowed', () => {
+    const strict = { ...published, additionalProperties: false };
+    const next = { ...strict, properties: { ...strict.properties, note: { type: 'string' } } };
+
+    expect(findBreakingChanges(strict, next)).toEqual([
+      '$.note: added but additional properties are not allowed',
+    ]);
+  });
+});
@@ -0,0 +1,17 @@
+import { CompressionCodecs, CompressionTypes } from 'kafkajs';
+import { createKafkaClient } from '../../kafka/kafka-client';
+
+describe('createKafkaClient', () => {
+  it('registers an LZ4 codec writing standard LZ4 frames', async () => {
+    createKafkaClient('test');
+    const codec = CompressionCodecs[CompressionTypes.LZ4]();
+    const payload = Buffer.from(JSON.stringify({ price: '3000.5' }).repeat(50));
+
+    const compressed: Buffer = await codec.compress({ buffer: payload });
+
+    // LZ4 frame magic number, little endian
+    expect(compressed.readUInt32LE(0)).toBe(0x184d2204);
+    expect(compressed.length).toBeLessThan(payload.length);
+    expect(await codec.decompress(compressed)).toEqual(payload);
+  });
+});
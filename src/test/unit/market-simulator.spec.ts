@@ -0,0 +1,57 @@
+import { MarketSimulator, MarketSimulatorOptions } from '../../services/market-simulator';
+
+describe('MarketSimulator', () => {
+  const options: MarketSimulatorOptions = {
+    seed: 42,
+    stepSeconds: 5,
+    defaultParams: { drift: 0, volatility: 0.8 },
+    tokenParams: new Map(),
+    shock: { probability: 0, magnitude: 0.1 },
+  };
+
+  const simulatePath = (simulator: MarketSimulator, tokenId: string, steps: number) => {
+    const path: number[] = [];
+    let price = 3000;
+    for (let i = 0; i < steps; i++) {
+      price = simulator.next(tokenId, 'ETH', price);
+      path.push(price);
+    }
+    return path;
+  };
+
+  it('produces the same path for the same seed', () => {
+    const first = simulatePath(new MarketSimulator(options), 'token-a', 50);
+    const second = simulatePath(new MarketSimulator(options), 'token-a', 50);
+
+    expect(second).toEqual(first);
+  });
+
+  it('keeps token paths independent of pricing order', () => {
+    const simulator = new MarketSimulator(options);
+    simulatePath(simulator, 'token-b', 10);
+    const interleaved = simulatePath(simulator, 'token-a', 20);
+
+    expect(interleaved).toEqual(simulatePath(new MarketSimulator(options), 'token-a', 20));
+  });
+
+  it('moves prices in small steps from the current price', () => {
+    const path = simulatePath(new MarketSimulator(options), 'token-a', 100);
+    let previous = 3000;
+
+    for (const price of path) {
+      expect(Math.abs(price / previous - 1)).toBeLessThan(0.01);
+      previous = price;
+    }
+  });
+
+  it('applies shocks of the configured magnitude', () => {
+    const simulator = new MarketSimulator({
+      ...options,
+      defaultParams: { drift: 0, volatility: 0 },
+      shock: { probability: 1, magnitude: 0.1 },
+    });
+
+    const price = simulator.next('token-a', 'ETH', 100);
+    expect([90, 110].map(expected => Math.abs(price - expected) < 1e-9)).toContain(true);
+  });
+});
@@ -0,0 +1,80 @@
+import Decimal from 'decimal.js';
+import { Price, formatPrice, toPrice } from '../../common/price-decimal';
+import {
+  AggregationOptions,
+  SourcePrice,
+  aggregatePrices,
+  median,
+  trimmedMean,
+} from '../../services/price-aggregation';
+
+describe('price aggregation', () => {
+  const options: AggregationOptions = {
+    method: 'median',
+    maxDeviationBps: 500,
+    trimRatio: 0.2,
+    minSources: 1,
+  };
+
+  const source = (name: string, price: Decimal.Value | Price, weight = 1): SourcePrice => ({
+    source: name,
+    price: price instanceof Decimal ? price : toPrice(price),
+    weight,
+  });
+
+  const prices = (...values: Decimal.Value[]) => values.map(value => toPrice(value));
+
+  it('computes the median of odd and even sized sets', () => {
+    expect(formatPrice(median(prices(3, 1, 2)))).toBe('2');
+    expect(formatPrice(median(prices(4, 1, 3, 2)))).toBe('2.5');
+  });
+
+  it('drops the extremes in a trimmed mean', () => {
+    expect(formatPrice(trimmedMean(prices(1, 10, 11, 12, 1000), 0.2))).toBe('11');
+  });
+
+  it('aggregates without binary floating point error', () => {
+    // 0.1 + 0.2 is 0.30000000000000004 in floating point
+    expect(formatPrice(trimmedMean(prices('0.1', '0.2'), 0))).toBe('0.15');
+    expect(
+      formatPrice(median(prices('1234567890.123456789012345678', '0.000000000000000001'))),
+    ).toBe('617283945.0617283945061728395');
+  });
+
+  it('rejects sources outside the deviation band and reports contributors', () => {
+    const result = aggregatePrices(
+      [source('a', 100), source('b', 101), source('c', 99), source('d', 150)],
+      options,
+    );
+
+    expect(formatPrice(result.price)).toBe('100');
+    expect(result.sources).toEqual(['a', 'b', 'c']);
+    expect(result.rejected).toHaveLength(1);
+    expect(result.rejected[0].source).toBe('d');
+  });
+
+  it('weights prices by source', () => {
+    const result = aggregatePrices([source('a', 100, 3), source('b', 104, 1)], {
+      ...options,
+      method: 'weighted-mean',
+    });
+
+    expect(formatPrice(result.price)).toBe('101');
+  });
+
+  it('throws when not enough sources agree', () => {
+    expect(() =>
+      aggregatePrices([source('a', 100), source('b', 200)], { ...options, minSources: 2 }),
+    ).toThrow(/source\(s\) agree/);
+  });
+
+  it('ignores non-finite and non-positive prices', () => {
+    const result = aggregatePrices(
+      [source('a', new Decimal(NaN)), source('b', 0), source('c', 42)],
+      options,
+    );
+
+    expect(formatPrice(result.price)).toBe('42');
+    expect(result.sources).toEqual(['c']);
+  });
+});
@@ -0,0 +1,83 @@
+import { formatPrice, priceTransformer, roundPrice, toPrice } from '../../common/price-decimal';
+import { priceInputSchema } from '../../models/price.schema';
+import {
+  createTokenPriceUpdateMessage,
+  parseTokenPriceUpdateMessage,
+} from '../../models/token-price-update-message';
+
+describe('exact decimal prices', () => {
+  // Largest and smallest values numeric(28,18) can hold, and values a float
+  // cannot represent exactly
+  const values = [
+    '9999999999.999999999999999999',
+    '0.000000000000000001',
+    '1234567890.123456789012345678',
+    '0.1',
+    '0.3',
+    '3000.000000000000000001',
+  ];
+
+  it('round-trips through the column transformer without drift', () => {
+    for (const value of values) {
+      let price = toPrice(value);
+      for (let i = 0; i < 100; i++) {
+        price = priceTransformer.from(priceTransformer.to(price));
+      }
+      expect(formatPrice(price)).toBe(value);
+    }
+  });
+
+  it('round-trips through the Kafka payload', () => {
+    for (const value of values) {
+      const message = createTokenPriceUpdateMessage({
+        producer: 'test',
+        tokenId: '0b6c1f1e-58a4-4d4f-9a57-1f1b7cf2d6b4',
+        symbol: 'TEST',
+        chainId: '5f8a3a1c-2b4d-4a7e-9c1e-6d2f8b9a0c3e',
+        deId: 1,
+        address: '0x01',
+        decimals: 18,
+        quote: 'USD',
+        oldPrice: toPrice(value),
+        newPrice: toPrice(value),
+        sources: ['fixture'],
+        reason: 'heartbeat',
+      });
+
+      const parsed = parseTokenPriceUpdateMessage(JSON.stringify(message));
+      expect(parsed.newPrice).toBe(value);
+      expect(toPrice(parsed.newPrice).equals(toPrice(value))).toBe(true);
+    }
+  });
+
+  it('compares exactly where floats would not', () => {
+    expect(toPrice('0.1').plus('0.2').equals(toPrice('0.3'))).toBe(true);
+    expect(
+      toPrice('1234567890.123456789012345678').equals(toPrice('1234567890.123456789012345679')),
+    ).toBe(false);
+  });
+
+  it("rounds half to even at the token's decimals, capped at the column scale", () => {
+    expect(formatPrice(roundPrice(toPrice('1.23456789'), 6))).toBe('1.234568');
+    expect(formatPrice(roundPrice(toPrice('0.125'), 2))).toBe('0.12');
+    expect(formatPrice(roundPrice(toPrice('0.135'), 2))).toBe('0.14');
+    expect(formatPrice(roundPrice(toPrice('2.5'), 0))).toBe('2');
+    expect(formatPrice(roundPrice(toPrice('0.0000000000000000015'), 24))).toBe(
+      '0.000000000000000002',
+    );
+  });
+
+  it('rejects prices that do not fit the column', () => {
+    expect(() => roundPrice(toPrice('10000000000'), 2)).toThrow(/does not fit/);
+    expect(() => toPrice(NaN)).toThrow(/Invalid price/);
+  });
+
+  it('reads decimal strings exactly and numbers by their shortest form', () => {
+    expect(formatPrice(priceInputSchema.parse('0.30000000000000000001'))).toBe(
+      '0.30000000000000000001',
+    );
+    expect(formatPrice(priceInputSchema.parse(0.1))).toBe('0.1');
+    expect(priceInputSchema.safeParse('1e3').success).toBe(false);
+    expect(priceInputSchema.safeParse(-1).success).toBe(false);
+  });
+});
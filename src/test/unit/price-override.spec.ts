@@ -0,0 +1,32 @@
+import { isPinActive } from '../../models/token-price-override.entity';
+import { priceOverrideSchema } from '../../models/price-override.schema';
+import { formatPrice } from '../../common/price-decimal';
+
+describe('price overrides', () => {
+  const now = new Date('2024-01-01T12:00:00Z');
+
+  it('keeps a pin in force until it expires', () => {
+    expect(isPinActive({ isPinned: false, pinnedUntil: null }, now)).toBe(false);
+    expect(isPinActive({ isPinned: true, pinnedUntil: null }, now)).toBe(true);
+    expect(
+      isPinActive({ isPinned: true, pinnedUntil: new Date('2024-01-01T13:00:00Z') }, now),
+    ).toBe(true);
+    expect(isPinActive({ isPinned: true, pinnedUntil: now }, now)).toBe(false);
+  });
+
+  it('accepts exact positive prices and future expiries', () => {
+    const expiresAt = new Date(Date.now() + 60_000).toISOString();
+    const request = priceOverrideSchema.parse({ price: '1.000000000000000001', expiresAt });
+
+    expect(formatPrice(request.price)).toBe('1.000000000000000001');
+    expect(request.expiresAt?.toISOString()).toBe(expiresAt);
+  });
+
+  it('rejects zero prices, past expiries and unknown fields', () => {
+    const past = new Date(Date.now() - 60_000).toISOString();
+
+    expect(priceOverrideSchema.safeParse({ price: '0' }).success).toBe(false);
+    expect(priceOverrideSchema.safeParse({ price: '1', expiresAt: past }).success).toBe(false);
+    expect(priceOverrideSchema.safeParse({ price: '1', author: 'mallory' }).success).toBe(false);
+  });
+});
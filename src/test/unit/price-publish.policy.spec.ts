@@ -0,0 +1,78 @@
+import { PricePublishPolicy } from '../../services/price-publish.policy';
+import { Token } from '../../models/token.entity';
+import { toPrice } from '../../common/price-decimal';
+
+describe('PricePublishPolicy', () => {
+  const lastPriceUpdate = new Date('2024-01-01T00:00:00Z');
+  const now = new Date(lastPriceUpdate.getTime() + 10_000);
+
+  const tokenWith = (overrides: Partial<Token> = {}) =>
+    ({
+      id: '0b6c1f1e-58a4-4d4f-9a57-1f1b7cf2d6b4',
+      symbol: 'ETH',
+      priority: 0,
+      price: toPrice('3000'),
+      lastPriceUpdate,
+      ...overrides,
+    } as Token);
+
+  afterEach(() => {
+    delete process.env.PUBLISH_DEVIATION_BPS;
+    delete process.env.PUBLISH_DEVIATION_BPS_BY_PRIORITY;
+    delete process.env.PUBLISH_DEVIATION_BPS_BY_TOKEN;
+    delete process.env.PUBLISH_HEARTBEAT_SECONDS;
+  });
+
+  it('publishes a move from the threshold on', () => {
+    const policy = new PricePublishPolicy();
+
+    // 10 bps of 3000 is 3
+    expect(policy.decide(tokenWith(), toPrice('3003'), now)).toBe('deviation');
+    expect(policy.decide(tokenWith(), toPrice('2997'), now)).toBe('deviation');
+    expect(policy.decide(tokenWith(), toPrice('3002.99'), now)).toBeNull();
+    expect(policy.decide(tokenWith(), toPrice('3000'), now)).toBeNull();
+  });
+
+  it('publishes any change from a zero price', () => {
+    const policy = new PricePublishPolicy();
+    const token = tokenWith({ price: toPrice(0) });
+
+    expect(policy.decide(token, toPrice('0.000001'), now)).toBe('deviation');
+    expect(policy.decide(token, toPrice(0), now)).toBeNull();
+  });
+
+  it('prefers token thresholds over priority thresholds over the default', () => {
+    process.env.PUBLISH_DEVIATION_BPS = '50';
+    process.env.PUBLISH_DEVIATION_BPS_BY_PRIORITY = '1:20';
+    process.env.PUBLISH_DEVIATION_BPS_BY_TOKEN = 'eth:5';
+    const policy = new PricePublishPolicy();
+
+    expect(policy.getDeviationThresholdBps(tokenWith())).toBe(5);
+    expect(policy.getDeviationThresholdBps(tokenWith({ symbol: 'BTC', priority: 1 }))).toBe(20);
+    expect(policy.getDeviationThresholdBps(tokenWith({ symbol: 'BTC' }))).toBe(50);
+    expect(policy.decide(tokenWith(), toPrice('3001.5'), now)).toBe('deviation');
+    expect(policy.decide(tokenWith({ symbol: 'BTC' }), toPrice('3001.5'), now)).toBeNull();
+  });
+
+  it('publishes a heartbeat once the token has been silent long enough', () => {
+    process.env.PUBLISH_HEARTBEAT_SECONDS = '10';
+    const policy = new PricePublishPolicy();
+
+    expect(policy.decide(tokenWith(), toPrice('3000'), now)).toBe('heartbeat');
+    expect(policy.decide(tokenWith(), toPrice('3000'), new Date(now.getTime() - 1))).toBeNull();
+  });
+
+  it('rejects malformed thresholds', () => {
+    for (const [name, value] of [
+      ['PUBLISH_DEVIATION_BPS', 'ten'],
+      ['PUBLISH_DEVIATION_BPS', '-1'],
+      ['PUBLISH_HEARTBEAT_SECONDS', '1m'],
+      ['PUBLISH_DEVIATION_BPS_BY_PRIORITY', '1:abc'],
+      ['PUBLISH_DEVIATION_BPS_BY_TOKEN', 'ETH:5bps'],
+    ]) {
+      process.env[name] = value;
+      expect(() => new PricePublishPolicy()).toThrow(/Invalid PUBLISH_/);
+      delete process.env[name];
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { PriceUpdateScheduler, ScheduledToken } from '../../services/price-update.scheduler';
+
+describe('PriceUpdateScheduler', () => {
+  const start = new Date('2024-01-01T00:00:00Z');
+  const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+  const token = (
+    id: string,
+    priority: number,
+    refreshIntervalSeconds: number | null = null,
+  ): ScheduledToken => ({ id, priority, refreshIntervalSeconds });
+
+  let scheduler: PriceUpdateScheduler;
+
+  beforeEach(() => {
+    process.env.PRICE_UPDATE_INTERVAL_SECONDS = '60';
+    process.env.PRICE_REFRESH_SECONDS_BY_PRIORITY = '1:1,2:10';
+    scheduler = new PriceUpdateScheduler();
+  });
+
+  afterEach(() => {
+    delete process.env.PRICE_UPDATE_INTERVAL_SECONDS;
+    delete process.env.PRICE_REFRESH_SECONDS_BY_PRIORITY;
+  });
+
+  it('picks the per-token interval, then the priority tier, then the default', () => {
+    expect(scheduler.getIntervalSeconds(token('a', 1, 5))).toBe(5);
+    expect(scheduler.getIntervalSeconds(token('b', 2))).toBe(10);
+    expect(scheduler.getIntervalSeconds(token('c', 3))).toBe(60);
+  });
+
+  it('only returns the tokens that are due', () => {
+    scheduler.sync([token('eth', 1), token('usdc', 2), token('tail', 3)], start);
+
+    expect(scheduler.takeDue(start).sort()).toEqual(['eth', 'tail', 'usdc']);
+    expect(scheduler.takeDue(at(0.5))).toEqual([]);
+    expect(scheduler.getNextRunAt()).toEqual(at(1));
+
+    const due: string[] = [];
+    for (let second = 1; second <= 10; second++) {
+      due.push(...scheduler.takeDue(at(second)));
+    }
+    expect(due.filter(id => id === 'eth')).toHaveLength(10);
+    expect(due.filter(id => id === 'usdc')).toHaveLength(1);
+    expect(due).not.toContain('tail');
+    expect(scheduler.getSchedule('tail')?.nextRunAt).toEqual(at(60));
+  });
+
+  it('skips missed runs instead of catching up', () => {
+    scheduler.sync([token('eth', 1)], start);
+    scheduler.takeDue(start);
+
+    expect(scheduler.takeDue(at(5.5))).toEqual(['eth']);
+    expect(scheduler.getSchedule('eth')?.nextRunAt).toEqual(at(6.5));
+  });
+
+  it('applies interval changes and drops removed tokens on sync', () => {
+    scheduler.sync([token('a', 3), token('b', 3)], start);
+    scheduler.takeDue(start);
+
+    scheduler.sync([token('a', 3, 2)], at(1));
+
+    expect(scheduler.getSchedule('a')).toEqual({
+      tokenId: 'a',
+      intervalSeconds: 2,
+      nextRunAt: at(3),
+    });
+    expect(scheduler.getSchedule('b')).toBeNull();
+    expect(scheduler.takeDue(at(60))).toEqual(['a']);
+  });
+});
@@ -0,0 +1,99 @@
+import { FindOneOptions } from 'typeorm';
+import { QuoteConversionService } from '../../services/quote-conversion.service';
+import { parseQuoteCurrencies } from '../../models/quote-currency';
+import { Token } from '../../models/token.entity';
+import { formatPrice, toPrice } from '../../common/price-decimal';
+
+describe('quote currencies', () => {
+  const lastPriceUpdate = new Date('2024-01-01T00:00:00Z');
+  const tokens = [
+    { id: '0b6c1f1e-58a4-4d4f-9a57-1f1b7cf2d6b4', symbol: 'BTC', price: '60000' },
+    { id: '5f8a3a1c-2b4d-4a7e-9c1e-6d2f8b9a0c3e', symbol: 'ETH', price: '3000' },
+    { id: '7d2e4c6a-1b3f-4e5d-8a9c-0f1e2d3c4b5a', symbol: 'SOL', price: '150' },
+    { id: '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d', symbol: 'EURC', price: '1.08' },
+  ].map(token => ({ ...token, price: toPrice(token.price), decimals: 18, lastPriceUpdate }));
+
+  // Looks tokens up by id or by the symbol of the Raw condition
+  const findOne = async (_entity: unknown, options: FindOneOptions<Token>) => {
+    const where = options.where as { id?: string; symbol?: { objectLiteralParameters: object } };
+    const symbol = (where.symbol?.objectLiteralParameters as { symbol?: string })?.symbol;
+    return (
+      tokens.find(token => token.id === where.id || token.symbol === symbol?.toUpperCase()) ?? null
+    );
+  };
+
+  const createService = () => new QuoteConversionService({ manager: { findOne } } as never);
+
+  beforeEach(() => {
+    process.env.PRICE_QUOTES = 'usd, EUR,BTC';
+    process.env.PRICE_QUOTE_TOKENS = 'EUR:EURC';
+  });
+
+  afterEach(() => {
+    delete process.env.PRICE_QUOTES;
+    delete process.env.PRICE_QUOTE_TOKENS;
+  });
+
+  it('parses the quote list with the base quote first', () => {
+    expect(parseQuoteCurrencies('usd, EUR,BTC,eur')).toEqual(['USD', 'EUR', 'BTC']);
+    expect(parseQuoteCurrencies(undefined)).toEqual(['USD']);
+    expect(() => parseQuoteCurrencies('USD,€')).toThrow(/Invalid quote currency/);
+  });
+
+  it('rejects backing tokens for quotes that are not configured', () => {
+    process.env.PRICE_QUOTE_TOKENS = 'GBP:GBPT';
+    expect(() => createService()).toThrow(/Unknown quote "GBP"/);
+  });
+
+  it('prices quotes by their backing token', async () => {
+    const service = createService();
+    const rates = await service.getRates();
+    const btc = rates.get('BTC') ?? toPrice(0);
+    const eur = rates.get('EUR') ?? toPrice(0);
+
+    expect(service.baseQuote).toBe('USD');
+    expect(formatPrice(btc)).toBe('60000');
+    expect(formatPrice(eur)).toBe('1.08');
+    expect(formatPrice(service.convert(toPrice('3000'), btc, 8))).toBe('0.05');
+    expect(formatPrice(service.convert(toPrice('1'), eur, 6))).toBe('0.925926');
+  });
+
+  it('converts token prices at the current rate of the quote', async () => {
+    const service = createService();
+    const [btc, eth] = tokens;
+    const ethInBtc = async () =>
+      formatPrice(
+        (await service.getQuotedPrices([eth] as Token[], 'BTC')).get(eth.id) ?? toPrice(0),
+      );
+
+    expect(await ethInBtc()).toBe('0.05');
+
+    // BTC moves while ETH is not updated
+    const btcPrice = btc.price;
+    btc.price = toPrice('50000');
+    try {
+      expect(await ethInBtc()).toBe('0.06');
+    } finally {
+      btc.price = btcPrice;
+    }
+  });
+
+  it('derives cross rates between tokens and quotes', async () => {
+    const service = createService();
+
+    const rate = async (base: string, quote: string) => {
+      const crossRate = await service.getCrossRate(base, quote);
+      return crossRate && { ...crossRate, rate: formatPrice(crossRate.rate) };
+    };
+
+    expect(await rate('sol', 'ETH')).toEqual({
+      base: 'SOL',
+      quote: 'ETH',
+      rate: '0.05',
+      timestamp: lastPriceUpdate,
+    });
+    expect((await rate('BTC', 'EUR'))?.rate).toBe('55555.555555555555555556');
+    expect((await rate('ETH', 'USD'))?.rate).toBe('3000');
+    expect(await rate('ETH', 'DOGE')).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { QueryFailedError } from 'typeorm';
+import { isTransientError } from '../../common/transient-error';
+import { KafkaConsumerService } from '../../kafka/kafka-consumer.service';
+
+describe('transient errors', () => {
+  const queryError = (code: string) =>
+    new QueryFailedError('UPDATE tokens', [], Object.assign(new Error('query failed'), { code }));
+
+  it('retries database and connection failures only', () => {
+    expect(isTransientError(queryError('40001'))).toBe(true);
+    expect(isTransientError(queryError('57P01'))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }))).toBe(
+      true,
+    );
+    expect(isTransientError(new Error('Connection terminated unexpectedly'))).toBe(true);
+
+    expect(isTransientError(queryError('22003'))).toBe(false);
+    expect(isTransientError(queryError('23505'))).toBe(false);
+    expect(isTransientError(new Error('Price 100000000000 does not fit numeric(28,18)'))).toBe(
+      false,
+    );
+  });
+
+  it('skips quotes that cannot be applied and rethrows transient failures', async () => {
+    const applyQuote = jest.fn();
+    const consumer = new KafkaConsumerService({ applyQuote } as never);
+    const handleQuote = (value: string) =>
+      (
+        consumer as unknown as { handleQuote(value: string, position: string): Promise<void> }
+      ).handleQuote(value, '0:1');
+    const quote = JSON.stringify({
+      deId: 1,
+      address: '0x' + 'ab'.repeat(20),
+      price: '100000000000',
+      source: 'feed',
+      timestamp: new Date().toISOString(),
+    });
+
+    applyQuote.mockRejectedValueOnce(new Error('Price 100000000000 does not fit numeric(28,18)'));
+    await expect(handleQuote(quote)).resolves.toBeUndefined();
+
+    applyQuote.mockRejectedValueOnce(queryError('08006'));
+    await expect(handleQuote(quote)).rejects.toThrow(QueryFailedError);
+    expect(applyQuote).toHaveBeenCalledTimes(2);
+  });
+});